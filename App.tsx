@@ -1,33 +1,208 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { getBudgetAnalysis, getEstimatedNetIncome } from './services/geminiService';
-import type { Expense } from './types';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import AmountInput from './components/AmountInput';
+import AnalysisCards from './components/AnalysisCards';
+import ChatPanel from './components/ChatPanel';
+import ExpenseDonutChart from './components/ExpenseDonutChart';
+import ExportMenu from './components/ExportMenu';
+import HistoryPanel from './components/HistoryPanel';
+import IncomeFlowChart from './components/IncomeFlowChart';
+import IncomeSection from './components/IncomeSection';
+import PlannerPanel from './components/PlannerPanel';
+import PrintReport from './components/PrintReport';
+import ProfileBar from './components/ProfileBar';
+import ScenarioPanel from './components/ScenarioPanel';
+import StatementImport from './components/StatementImport';
+import UsageMeter from './components/UsageMeter';
+import { createBudgetExport, readShareHash } from './services/budgetExport';
+import type { ImportedBudget } from './services/budgetExport';
+import { applyExpenseEdit } from './services/chat';
+import { CATEGORY_LABELS, createExpense, FREQUENCY_LABELS, isNegativeAmount, isValidExpense, MAX_EXPENSES, summarizeByCategory, TAG_LABELS, toMonthlyAmount } from './services/expenses';
+import { AiServiceError, extractPartialSummary, getEstimatedNetIncome, streamBudgetAnalysis } from './services/geminiService';
+import { mergeExpenses } from './services/importers/grouping';
+import { isValidIncome, PAY_FREQUENCY_LABELS, totalMonthlyIncome } from './services/income';
+import { changeCountry, COUNTRY_SETTINGS, createCurrencyFormatter, getCurrencySymbol } from './services/locale';
+import { comparePayoffStrategies, summarizePlan } from './services/planner';
+import { createProfile, getMonthKey, loadStore, recordSnapshot, saveStore } from './services/storage';
+import type { StoredBudgets } from './services/storage';
+import { compareWithAiEstimate, estimateTaxes, getLocalTaxDisclaimer, isSignificantDiscrepancy } from './services/taxEngine';
+import { COUNTRIES, EXPENSE_CATEGORIES, EXPENSE_FREQUENCIES, EXPENSE_TAGS, FILING_STATUSES_BY_COUNTRY } from './types';
+import type { BudgetAnalysis, BudgetChatContext, BudgetInputs, BudgetProfile, BudgetResults, ChatMessage, CountryCode, Debt, Expense, ExpenseEdit, Scenario, FilingStatus, IncomeStream, MonthlySnapshot, PayoffStrategy, PreTaxDeduction, SavingsGoal, TaxBreakdown, TaxDiscrepancy } from './types';
+
+type EditableExpenseField = Exclude<keyof Expense, 'id'>;
 
 const App: React.FC = () => {
-    const [grossIncome, setGrossIncome] = useState<string>('');
-    const [filingStatus, setFilingStatus] = useState<string>('Single');
-    const [location, setLocation] = useState<string>('');
-    const [expenses, setExpenses] = useState<Expense[]>([
-        { id: Date.now(), name: 'Rent/Mortgage', amount: '' },
-    ]);
+    const [store, setStore] = useState<StoredBudgets>(loadStore);
+    const activeProfile = store.profiles.find(profile => profile.id === store.activeProfileId) ?? store.profiles[0];
+
+    const [incomes, setIncomes] = useState<IncomeStream[]>(activeProfile.inputs.incomes);
+    const [deductions, setDeductions] = useState<PreTaxDeduction[]>(activeProfile.inputs.deductions);
+    const [country, setCountry] = useState<CountryCode>(activeProfile.inputs.country);
+    const [filingStatus, setFilingStatus] = useState<FilingStatus>(activeProfile.inputs.filingStatus);
+    const [location, setLocation] = useState<string>(activeProfile.inputs.location);
+    const [expenses, setExpenses] = useState<Expense[]>(activeProfile.inputs.expenses);
+    const [goals, setGoals] = useState<SavingsGoal[]>(activeProfile.inputs.goals);
+    const [debts, setDebts] = useState<Debt[]>(activeProfile.inputs.debts);
+    const [payoffStrategy, setPayoffStrategy] = useState<PayoffStrategy>(activeProfile.inputs.payoffStrategy);
 
     const [netIncome, setNetIncome] = useState<number | null>(null);
     const [estimatedTax, setEstimatedTax] = useState<number | null>(null);
     const [taxDisclaimer, setTaxDisclaimer] = useState<string>('');
-    const [analysis, setAnalysis] = useState<string>('');
+    const [taxBreakdown, setTaxBreakdown] = useState<TaxBreakdown | null>(null);
+    const [taxSource, setTaxSource] = useState<'local' | 'ai'>('local');
+    const [taxDiscrepancy, setTaxDiscrepancy] = useState<TaxDiscrepancy | null>(null);
+    const [useAiTaxCheck, setUseAiTaxCheck] = useState<boolean>(activeProfile.inputs.useAiTaxCheck);
+    const [reuseAnalysis, setReuseAnalysis] = useState<boolean>(activeProfile.inputs.reuseAnalysis);
+    const [aiTaxCachedAt, setAiTaxCachedAt] = useState<string | null>(null);
+    const [analysis, setAnalysis] = useState<BudgetAnalysis | null>(null);
+    const [analysisError, setAnalysisError] = useState<string | null>(null);
+    const [taxCheckError, setTaxCheckError] = useState<string | null>(null);
+    const [streamingText, setStreamingText] = useState<string>('');
+    const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [loadingStatus, setLoadingStatus] = useState<string>('');
     const [error, setError] = useState<string | null>(null);
     const [showResults, setShowResults] = useState<boolean>(false);
+    const [showImport, setShowImport] = useState<boolean>(false);
+    const [usageRefreshKey, setUsageRefreshKey] = useState<number>(0);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const updateProfile = useCallback((id: string, update: (profile: BudgetProfile) => BudgetProfile) => {
+        setStore(prevStore => ({
+            ...prevStore,
+            profiles: prevStore.profiles.map(profile => profile.id === id ? update(profile) : profile),
+        }));
+    }, []);
+
+    const currentInputs = useMemo<BudgetInputs>(
+        () => ({ incomes, deductions, country, filingStatus, location, expenses, goals, debts, payoffStrategy, useAiTaxCheck, reuseAnalysis }),
+        [incomes, deductions, country, filingStatus, location, expenses, goals, debts, payoffStrategy, useAiTaxCheck, reuseAnalysis]
+    );
+
+    // Autosave: mirror the form into the active profile, and the store into localStorage.
+    useEffect(() => {
+        setStore(prevStore => ({
+            ...prevStore,
+            profiles: prevStore.profiles.map(profile =>
+                profile.id === prevStore.activeProfileId ? { ...profile, inputs: currentInputs, updatedAt: new Date().toISOString() } : profile
+            ),
+        }));
+    }, [currentInputs]);
+
+    useEffect(() => {
+        saveStore(store);
+    }, [store]);
+
+    const applyInputs = useCallback((inputs: BudgetInputs) => {
+        // Detach the running request too, so its results never land in the budget being loaded.
+        abortRef.current?.abort();
+        abortRef.current = null;
+        setIsLoading(false);
+        setIsAnalyzing(false);
+        setLoadingStatus('');
+        setStreamingText('');
+        setIncomes(inputs.incomes);
+        setDeductions(inputs.deductions);
+        setCountry(inputs.country);
+        setFilingStatus(inputs.filingStatus);
+        setLocation(inputs.location);
+        setExpenses(inputs.expenses);
+        setGoals(inputs.goals);
+        setDebts(inputs.debts);
+        setPayoffStrategy(inputs.payoffStrategy);
+        setUseAiTaxCheck(inputs.useAiTaxCheck);
+        setReuseAnalysis(inputs.reuseAnalysis);
+        setShowResults(false);
+        setError(null);
+    }, []);
+
+    const handleSelectProfile = useCallback((id: string) => {
+        const profile = store.profiles.find(p => p.id === id);
+        if (!profile) return;
+        setStore(prevStore => ({ ...prevStore, activeProfileId: id }));
+        applyInputs(profile.inputs);
+    }, [store.profiles, applyInputs]);
+
+    const handleCreateProfile = useCallback((name: string, inputs?: BudgetInputs) => {
+        const profile = createProfile(name, inputs);
+        setStore(prevStore => ({ ...prevStore, activeProfileId: profile.id, profiles: [...prevStore.profiles, profile] }));
+        applyInputs(profile.inputs);
+    }, [applyInputs]);
+
+    const handleImportBudget = useCallback(({ name, inputs }: ImportedBudget) => {
+        handleCreateProfile(name, inputs);
+    }, [handleCreateProfile]);
+
+    // Opening a share link offers to add the shared budget as a new profile, then clears the fragment.
+    useEffect(() => {
+        let cancelled = false;
+        const openSharedBudget = () => {
+            readShareHash(window.location.hash)
+                .then(budget => {
+                    if (cancelled || !budget) return;
+                    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+                    if (window.confirm(`Open the shared budget "${budget.name}" as a new budget?`)) handleImportBudget(budget);
+                })
+                .catch(err => {
+                    if (cancelled) return;
+                    console.error(err);
+                    setError(err.message);
+                });
+        };
+        openSharedBudget();
+        window.addEventListener('hashchange', openSharedBudget);
+        return () => {
+            cancelled = true;
+            window.removeEventListener('hashchange', openSharedBudget);
+        };
+    }, [handleImportBudget]);
+
+    const handleRenameProfile = useCallback((id: string, name: string) => {
+        updateProfile(id, profile => ({ ...profile, name }));
+    }, [updateProfile]);
+
+    const handleDeleteProfile = useCallback((id: string) => {
+        const remaining = store.profiles.filter(profile => profile.id !== id);
+        if (remaining.length === 0) return;
+        setStore(prevStore => ({ ...prevStore, activeProfileId: remaining[0].id, profiles: remaining }));
+        applyInputs(remaining[0].inputs);
+    }, [store.profiles, applyInputs]);
+
+    const handleScenariosChange = useCallback((scenarios: Scenario[]) => {
+        updateProfile(store.activeProfileId, profile => ({ ...profile, scenarios }));
+    }, [store.activeProfileId, updateProfile]);
+
+    const handleChatUpdate = useCallback((update: (messages: ChatMessage[]) => ChatMessage[]) => {
+        updateProfile(store.activeProfileId, profile => ({ ...profile, chat: update(profile.chat) }));
+    }, [store.activeProfileId, updateProfile]);
+
+    const handleApplyChatEdit = useCallback((edit: ExpenseEdit) => {
+        setExpenses(prevExpenses => applyExpenseEdit(prevExpenses, edit));
+    }, []);
+
+    const { currency, locale } = COUNTRY_SETTINGS[country];
+
+    const handleCountryChange = useCallback((newCountry: CountryCode) => {
+        const moved = changeCountry(currentInputs, newCountry);
+        setCountry(moved.country);
+        setFilingStatus(moved.filingStatus);
+        setDeductions(moved.deductions);
+        setExpenses(moved.expenses);
+    }, [currentInputs]);
 
     const handleAddExpense = useCallback(() => {
-        setExpenses(prevExpenses => [...prevExpenses, { id: Date.now(), name: '', amount: '' }]);
+        setExpenses(prevExpenses => prevExpenses.length >= MAX_EXPENSES ? prevExpenses : [...prevExpenses, createExpense({ currency })]);
+    }, [currency]);
+
+    const handleApplyImport = useCallback((imported: Expense[], mode: 'merge' | 'replace') => {
+        setExpenses(prevExpenses => mode === 'replace' ? imported : mergeExpenses(prevExpenses, imported));
+        setShowImport(false);
     }, []);
 
     const handleRemoveExpense = useCallback((id: number) => {
         setExpenses(prevExpenses => prevExpenses.filter(expense => expense.id !== id));
     }, []);
 
-    const handleExpenseChange = useCallback((id: number, field: 'name' | 'amount', value: string) => {
+    const handleExpenseChange = useCallback(<K extends EditableExpenseField>(id: number, field: K, value: Expense[K]) => {
         setExpenses(prevExpenses =>
             prevExpenses.map(expense =>
                 expense.id === id ? { ...expense, [field]: value } : expense
@@ -35,76 +210,258 @@ const App: React.FC = () => {
         );
     }, []);
 
-    const { totalExpenses, isFormValid } = useMemo(() => {
-        const numericGrossIncome = parseFloat(grossIncome);
-        const validExpenses = expenses.filter(e => e.name.trim() !== '' && e.amount.trim() !== '' && !isNaN(parseFloat(e.amount)));
+    const { grossIncome, validExpenses, totalExpenses, categoryTotals, isFormValid } = useMemo(() => {
+        const valid = expenses.filter(isValidExpense);
         
-        const total = validExpenses.reduce((sum, expense) => sum + parseFloat(expense.amount), 0);
+        const total = valid.reduce((sum, expense) => sum + toMonthlyAmount(expense), 0);
         
-        const formValid = !isNaN(numericGrossIncome) && numericGrossIncome > 0 && location.trim() !== '';
+        const formValid = incomes.some(isValidIncome) && location.trim() !== '';
 
         return {
+            grossIncome: totalMonthlyIncome(incomes),
+            validExpenses: valid,
             totalExpenses: total,
+            categoryTotals: summarizeByCategory(valid),
             isFormValid: formValid
         };
-    }, [grossIncome, expenses, location]);
+    }, [incomes, expenses, location]);
     
     const remainingBalance = useMemo(() => {
         if (netIncome === null) return null;
         return netIncome - totalExpenses;
     }, [netIncome, totalExpenses]);
 
+    const payoffPlans = useMemo(() => {
+        if (remainingBalance === null) return null;
+        return comparePayoffStrategies(goals, debts, remainingBalance, getMonthKey());
+    }, [goals, debts, remainingBalance]);
+
+    const chatContext = useMemo<BudgetChatContext | null>(() => {
+        if (netIncome === null || estimatedTax === null) return null;
+        return {
+            country,
+            currency,
+            location,
+            filingStatus,
+            grossIncome: taxBreakdown?.grossIncome ?? grossIncome,
+            netIncome,
+            totalTax: estimatedTax,
+            taxes: taxSource === 'local' && taxBreakdown ? {
+                lines: taxBreakdown.lines,
+                preTaxDeductions: taxBreakdown.preTaxDeductions,
+            } : null,
+            expenses: validExpenses,
+            totalExpenses,
+            remainingBalance: netIncome - totalExpenses,
+            analysisSummary: analysis?.summary ?? null,
+        };
+    }, [country, currency, location, filingStatus, taxBreakdown, grossIncome, netIncome, estimatedTax, taxSource, validExpenses, totalExpenses, analysis]);
+
+    const results = useMemo<BudgetResults | null>(() => {
+        if (netIncome === null || estimatedTax === null) return null;
+        return {
+            grossIncome: taxBreakdown?.grossIncome ?? grossIncome,
+            netIncome,
+            totalTax: estimatedTax,
+            taxSource,
+            taxBreakdown,
+            totalExpenses,
+            remainingBalance: netIncome - totalExpenses,
+            categoryTotals,
+        };
+    }, [netIncome, estimatedTax, taxSource, taxBreakdown, grossIncome, totalExpenses, categoryTotals]);
+
+    const createExport = useCallback(
+        () => createBudgetExport(activeProfile.name, currentInputs, results, analysis),
+        [activeProfile.name, currentInputs, results, analysis]
+    );
+
+    const getErrorMessage = (err: unknown, fallback: string) => err instanceof AiServiceError ? err.message : fallback;
+
+    /**
+     * A request stops being current once a newer one starts or another budget is loaded. From then on
+     * it must not touch the state; a request that is still current but aborted was cancelled by the user.
+     */
+    const isCurrentRequest = (controller: AbortController) => abortRef.current === controller;
+
+    /** Runs only the analysis step, so it can be retried without recalculating taxes. */
+    const runAnalysis = async (taxResult: { netIncome: number; totalTax: number }, profileId: string, controller: AbortController) => {
+        const { signal } = controller;
+        setLoadingStatus('Analyzing your budget...');
+        setIsAnalyzing(true);
+        setAnalysis(null);
+        setAnalysisError(null);
+        setStreamingText('');
+
+        try {
+            const finalRemainingBalance = taxResult.netIncome - totalExpenses;
+            const plan = summarizePlan(comparePayoffStrategies(goals, debts, finalRemainingBalance, getMonthKey()), payoffStrategy);
+            const analysisResult = await streamBudgetAnalysis(
+                grossIncome,
+                taxResult.netIncome,
+                location,
+                currency,
+                validExpenses,
+                categoryTotals,
+                totalExpenses,
+                finalRemainingBalance,
+                plan,
+                {
+                    signal,
+                    onProgress: text => {
+                        if (isCurrentRequest(controller)) setStreamingText(text);
+                    },
+                    reuseCached: reuseAnalysis,
+                }
+            );
+            if (!isCurrentRequest(controller)) return;
+            setAnalysis(analysisResult);
+
+            const snapshot: MonthlySnapshot = {
+                month: getMonthKey(),
+                savedAt: new Date().toISOString(),
+                currency,
+                grossIncome,
+                netIncome: taxResult.netIncome,
+                totalTax: taxResult.totalTax,
+                totalExpenses,
+                remainingBalance: finalRemainingBalance,
+                categoryTotals,
+                analysis: analysisResult.summary,
+                healthScore: analysisResult.healthScore,
+            };
+            updateProfile(profileId, profile => recordSnapshot(profile, snapshot));
+        } catch (err) {
+            if (!isCurrentRequest(controller)) return;
+            if (!signal.aborted) console.error(err);
+            setAnalysisError(signal.aborted
+                ? 'The analysis was cancelled. Your tax estimate above is unaffected.'
+                : getErrorMessage(err, 'The budget analysis failed. Your tax estimate above is unaffected.'));
+        } finally {
+            if (isCurrentRequest(controller)) {
+                setIsAnalyzing(false);
+                setStreamingText('');
+            }
+        }
+    };
+
+    const startRequest = () => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsLoading(true);
+        return controller;
+    };
+
+    const finishRequest = (controller: AbortController) => {
+        if (!isCurrentRequest(controller)) return;
+        abortRef.current = null;
+        setIsLoading(false);
+        setLoadingStatus('');
+        setUsageRefreshKey(key => key + 1);
+    };
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+    };
+
     const handleCalculate = async () => {
         if (!isFormValid) {
-            setError('Please fill in your gross income, location, and at least one valid expense.');
+            setError('Please fill in at least one income and your location.');
+            return;
+        }
+        if (validExpenses.length > MAX_EXPENSES) {
+            setError(`A budget can have at most ${MAX_EXPENSES} expenses. Please remove or combine some of your ${validExpenses.length} expenses.`);
             return;
         }
 
+        const profileId = store.activeProfileId;
+        const controller = startRequest();
         setError(null);
-        setIsLoading(true);
         setShowResults(true);
-        setAnalysis('');
+        setAnalysis(null);
+        setAnalysisError(null);
+        setTaxCheckError(null);
         setNetIncome(null);
         setEstimatedTax(null);
+        setTaxBreakdown(null);
+        setTaxDiscrepancy(null);
+        setAiTaxCachedAt(null);
 
         try {
             setLoadingStatus('Estimating your taxes...');
-            const taxResult = await getEstimatedNetIncome(
-                parseFloat(grossIncome),
+            const breakdown = estimateTaxes({
+                country,
+                incomes,
+                deductions,
                 location,
-                filingStatus
-            );
+                filingStatus,
+            });
+            let taxResult = { netIncome: breakdown.netIncome, totalTax: breakdown.totalTax, disclaimer: getLocalTaxDisclaimer(country) };
+            let source: 'local' | 'ai' = 'local';
+
+            if (useAiTaxCheck) {
+                setLoadingStatus(breakdown.regionCovered ? 'Cross-checking with AI...' : 'Estimating regional taxes with AI...');
+                try {
+                    const aiResult = await getEstimatedNetIncome(
+                        grossIncome,
+                        country,
+                        location,
+                        filingStatus,
+                        incomes,
+                        deductions,
+                        controller.signal
+                    );
+                    if (!isCurrentRequest(controller)) return;
+                    setAiTaxCachedAt(aiResult.cachedAt ?? null);
+                    if (breakdown.regionCovered) {
+                        setTaxDiscrepancy(compareWithAiEstimate(breakdown, aiResult.netIncome));
+                    } else {
+                        taxResult = aiResult;
+                        source = 'ai';
+                    }
+                } catch (aiError) {
+                    if (!isCurrentRequest(controller)) return;
+                    // The local estimate is still usable without the AI figure.
+                    if (!controller.signal.aborted) console.error(aiError);
+                    setTaxCheckError(controller.signal.aborted
+                        ? 'The AI tax check was cancelled.'
+                        : getErrorMessage(aiError, 'The AI tax check failed.'));
+                }
+            }
+
+            setTaxBreakdown(breakdown);
+            setTaxSource(source);
             setNetIncome(taxResult.netIncome);
             setEstimatedTax(taxResult.totalTax);
             setTaxDisclaimer(taxResult.disclaimer);
 
-            setLoadingStatus('Analyzing your budget...');
-            const finalRemainingBalance = taxResult.netIncome - totalExpenses;
-            const validExpenses = expenses.filter(e => e.name.trim() !== '' && e.amount.trim() !== '');
-            const analysisResult = await getBudgetAnalysis(
-                parseFloat(grossIncome),
-                taxResult.netIncome,
-                location,
-                validExpenses,
-                totalExpenses,
-                finalRemainingBalance
-            );
-            setAnalysis(analysisResult);
+            if (controller.signal.aborted) {
+                setAnalysisError('The analysis was cancelled. Your tax estimate above is unaffected.');
+                return;
+            }
+            await runAnalysis(taxResult, profileId, controller);
         } catch (err) {
-            setError('An error occurred during analysis. Please check your inputs and try again.');
+            if (!isCurrentRequest(controller)) return;
+            setError('An error occurred while estimating your taxes. Please check your inputs and try again.');
             console.error(err);
             setShowResults(false);
         } finally {
-            setIsLoading(false);
-            setLoadingStatus('');
+            finishRequest(controller);
         }
     };
 
-    const currencyFormatter = new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 2,
-    });
+    const handleRetryAnalysis = async () => {
+        if (netIncome === null || estimatedTax === null) return;
+        const controller = startRequest();
+        try {
+            await runAnalysis({ netIncome, totalTax: estimatedTax }, store.activeProfileId, controller);
+        } finally {
+            finishRequest(controller);
+        }
+    };
+
+    const formatCurrency = createCurrencyFormatter(country);
 
     const getBalanceColor = (balance: number | null) => {
         if (balance === null) return 'text-gray-700';
@@ -114,8 +471,9 @@ const App: React.FC = () => {
     };
 
     return (
-        <div className="bg-slate-50 min-h-screen font-sans text-slate-800 flex flex-col items-center p-4 sm:p-6 md:p-8">
-            <div className="w-full max-w-4xl mx-auto">
+        <div className="bg-slate-50 min-h-screen font-sans text-slate-800 flex flex-col items-center p-4 sm:p-6 md:p-8 print:block print:p-0 print:bg-white">
+            <PrintReport data={createExport()} formatCurrency={formatCurrency} />
+            <div className="w-full max-w-4xl mx-auto print:hidden">
                 <header className="text-center mb-8">
                     <h1 className="text-4xl sm:text-5xl font-bold text-slate-900 tracking-tight">AI Monthly Budget Analyzer</h1>
                     <p className="mt-2 text-lg text-slate-600">Understand your finances with the power of AI.</p>
@@ -123,35 +481,46 @@ const App: React.FC = () => {
 
                 <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                     <div className="bg-white p-6 sm:p-8 rounded-2xl shadow-lg border border-slate-200">
+                        <ProfileBar
+                            profiles={store.profiles}
+                            activeProfileId={activeProfile.id}
+                            onSelect={handleSelectProfile}
+                            onCreate={handleCreateProfile}
+                            onRename={handleRenameProfile}
+                            onDelete={handleDeleteProfile}
+                        />
+                        <ExportMenu createExport={createExport} onImport={handleImportBudget} />
                         <h2 className="text-2xl font-semibold mb-6 border-b pb-3">Your Financial Details</h2>
                         
                         <div className="space-y-6">
                             <div>
-                                <label htmlFor="income" className="block text-sm font-medium text-slate-700 mb-1">Gross Monthly Income</label>
-                                <div className="relative">
-                                    <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
-                                    <input
-                                        type="number"
-                                        id="income"
-                                        value={grossIncome}
-                                        onChange={(e) => setGrossIncome(e.target.value)}
-                                        placeholder="5000"
-                                        className="w-full pl-7 pr-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
-                                    />
-                                </div>
+                                <label htmlFor="country" className="block text-sm font-medium text-slate-700 mb-1">Country</label>
+                                <select
+                                    id="country"
+                                    value={country}
+                                    onChange={(e) => handleCountryChange(e.target.value as CountryCode)}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition bg-white"
+                                >
+                                    {COUNTRIES.map(code => <option key={code} value={code}>{COUNTRY_SETTINGS[code].name}</option>)}
+                                </select>
                             </div>
+                            <IncomeSection
+                                country={country}
+                                incomes={incomes}
+                                deductions={deductions}
+                                onIncomesChange={setIncomes}
+                                onDeductionsChange={setDeductions}
+                                formatCurrency={formatCurrency}
+                            />
                              <div>
                                 <label htmlFor="filingStatus" className="block text-sm font-medium text-slate-700 mb-1">Filing Status</label>
                                 <select
                                     id="filingStatus"
                                     value={filingStatus}
-                                    onChange={(e) => setFilingStatus(e.target.value)}
+                                    onChange={(e) => setFilingStatus(e.target.value as FilingStatus)}
                                     className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition bg-white"
                                 >
-                                    <option>Single</option>
-                                    <option>Married Filing Jointly</option>
-                                    <option>Married Filing Separately</option>
-                                    <option>Head of Household</option>
+                                    {FILING_STATUSES_BY_COUNTRY[country].map(status => <option key={status}>{status}</option>)}
                                 </select>
                             </div>
                             <div>
@@ -161,16 +530,35 @@ const App: React.FC = () => {
                                     id="location"
                                     value={location}
                                     onChange={(e) => setLocation(e.target.value)}
-                                    placeholder="e.g., San Francisco, CA"
+                                    placeholder={COUNTRY_SETTINGS[country].locationPlaceholder}
                                     className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
                                 />
                             </div>
+                            <label className="flex items-center gap-2 text-sm text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={useAiTaxCheck}
+                                    onChange={(e) => setUseAiTaxCheck(e.target.checked)}
+                                    className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                Cross-check taxes with AI (and estimate locations without local tax tables)
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={reuseAnalysis}
+                                    onChange={(e) => setReuseAnalysis(e.target.checked)}
+                                    className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                Reuse the last AI analysis when the budget hasn't changed
+                            </label>
                         </div>
 
-                        <h3 className="text-xl font-semibold mt-8 mb-4 border-b pb-3">Monthly Expenses</h3>
+                        <h3 className="text-xl font-semibold mt-8 mb-4 border-b pb-3">Expenses</h3>
                         <div className="space-y-4 max-h-80 overflow-y-auto pr-2">
                             {expenses.map((expense, index) => (
-                                <div key={expense.id} className="flex items-center gap-2 animate-fade-in">
+                                <div key={expense.id} className="space-y-2 animate-fade-in">
+                                <div className="flex items-center gap-2">
                                     <input
                                         type="text"
                                         value={expense.name}
@@ -179,11 +567,11 @@ const App: React.FC = () => {
                                         className="flex-grow px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
                                     />
                                     <div className="relative">
-                                         <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">$</span>
-                                        <input
-                                            type="number"
+                                         <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">{getCurrencySymbol(country)}</span>
+                                        <AmountInput
                                             value={expense.amount}
-                                            onChange={(e) => handleExpenseChange(expense.id, 'amount', e.target.value)}
+                                            onChange={(amount) => handleExpenseChange(expense.id, 'amount', amount)}
+                                            locale={locale}
                                             placeholder="500"
                                             className="w-32 pl-7 pr-2 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
                                         />
@@ -196,23 +584,77 @@ const App: React.FC = () => {
                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
                                     </button>
                                 </div>
+                                <div className="flex items-center gap-2 text-sm pr-11">
+                                    <select
+                                        value={expense.category}
+                                        onChange={(e) => handleExpenseChange(expense.id, 'category', e.target.value as Expense['category'])}
+                                        aria-label="Category"
+                                        className="flex-1 px-2 py-1 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                    >
+                                        {EXPENSE_CATEGORIES.map(category => <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>)}
+                                    </select>
+                                    <select
+                                        value={expense.frequency}
+                                        onChange={(e) => handleExpenseChange(expense.id, 'frequency', e.target.value as Expense['frequency'])}
+                                        aria-label="Frequency"
+                                        className="flex-1 px-2 py-1 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                    >
+                                        {EXPENSE_FREQUENCIES.map(frequency => <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>)}
+                                    </select>
+                                    <select
+                                        value={expense.tag}
+                                        onChange={(e) => handleExpenseChange(expense.id, 'tag', e.target.value as Expense['tag'])}
+                                        aria-label="Type"
+                                        className="flex-1 px-2 py-1 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                    >
+                                        {EXPENSE_TAGS.map(tag => <option key={tag} value={tag}>{TAG_LABELS[tag]}</option>)}
+                                    </select>
+                                </div>
+                                {expense.frequency !== 'monthly' && isValidExpense(expense) && (
+                                    <p className="text-xs text-slate-500">≈ {formatCurrency(toMonthlyAmount(expense))} per month</p>
+                                )}
+                                {isNegativeAmount(expense) && (
+                                    <p className="text-xs text-red-500">Amounts can't be negative, so this expense is left out. Subtract a refund from the expense it belongs to instead.</p>
+                                )}
+                                </div>
                             ))}
                         </div>
                          <button
                             onClick={handleAddExpense}
-                            className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 border border-transparent rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition"
+                            disabled={expenses.length >= MAX_EXPENSES}
+                            className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 border border-transparent rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" /></svg>
                             Add Expense
+                        </button>
+                        {expenses.length >= MAX_EXPENSES && (
+                            <p className="mt-2 text-xs text-slate-500 text-center">A budget can have at most {MAX_EXPENSES} expenses. Combine small ones into a single expense to add more.</p>
+                        )}
+                        <button
+                            onClick={() => setShowImport(true)}
+                            className="mt-2 w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 border border-transparent rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                            Import Bank Statement
                         </button>
                          <div className="mt-8 border-t pt-6">
-                            <button
-                                onClick={handleCalculate}
-                                disabled={!isFormValid || isLoading}
-                                className="w-full px-6 py-3 text-lg font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all duration-300"
-                            >
-                                {isLoading ? loadingStatus : 'Calculate & Analyze'}
-                            </button>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleCalculate}
+                                    disabled={!isFormValid || isLoading}
+                                    className="flex-grow px-6 py-3 text-lg font-semibold text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all duration-300"
+                                >
+                                    {isLoading ? loadingStatus : 'Calculate & Analyze'}
+                                </button>
+                                {isLoading && (
+                                    <button
+                                        onClick={handleCancel}
+                                        className="px-4 py-3 font-semibold text-slate-700 bg-slate-100 rounded-lg hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-400 transition"
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
+                            </div>
                             {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
                         </div>
 
@@ -224,40 +666,151 @@ const App: React.FC = () => {
                                 <div className="grid grid-cols-2 gap-4 text-sm">
                                     <div className="p-3 bg-slate-50 rounded-lg">
                                         <p className="font-medium text-slate-600">Gross Monthly Income</p>
-                                        <p className="text-lg font-bold text-slate-800">{currencyFormatter.format(parseFloat(grossIncome) || 0)}</p>
+                                        <p className="text-lg font-bold text-slate-800">{formatCurrency(taxBreakdown?.grossIncome ?? grossIncome)}</p>
                                     </div>
                                     <div className="p-3 bg-slate-50 rounded-lg">
                                         <p className="font-medium text-slate-600">Estimated Taxes</p>
-                                        <p className="text-lg font-bold text-slate-800">{estimatedTax !== null ? currencyFormatter.format(estimatedTax) : '...'}</p>
+                                        <p className="text-lg font-bold text-slate-800">{estimatedTax !== null ? formatCurrency(estimatedTax) : '...'}</p>
                                     </div>
                                 </div>
+                                {taxBreakdown && (
+                                    <div className="p-3 bg-slate-50 rounded-lg text-sm">
+                                        <p className="font-medium text-slate-600 mb-2">Tax Breakdown (monthly, {taxBreakdown.taxYear} tables)</p>
+                                        <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+                                            {taxBreakdown.lines.map(line => (
+                                                <React.Fragment key={line.label}>
+                                                    <dt className="text-slate-600">{line.label}</dt>
+                                                    <dd className="text-right font-medium">{line.covered ? formatCurrency(line.amount) : 'Not in tables'}</dd>
+                                                </React.Fragment>
+                                            ))}
+                                            {taxBreakdown.preTaxDeductions > 0 && (
+                                                <>
+                                                    <dt className="text-slate-600">Pre-tax deductions</dt>
+                                                    <dd className="text-right font-medium">{formatCurrency(taxBreakdown.preTaxDeductions)}</dd>
+                                                </>
+                                            )}
+                                        </dl>
+                                        {taxSource === 'local' && taxBreakdown.paychecks.length > 0 && (
+                                            <>
+                                                <p className="font-medium text-slate-600 mt-3 mb-2">Take-home per Paycheck</p>
+                                                <ul className="space-y-1">
+                                                    {taxBreakdown.paychecks.map(paycheck => (
+                                                        <li key={paycheck.incomeId} className="flex justify-between gap-2">
+                                                            <span className="text-slate-600">
+                                                                {paycheck.name} <span className="text-slate-400">({PAY_FREQUENCY_LABELS[paycheck.payFrequency].toLowerCase()}, {formatCurrency(paycheck.grossPerPaycheck)} gross)</span>
+                                                            </span>
+                                                            <span className="font-medium">{formatCurrency(paycheck.takeHomePerPaycheck)}</span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </>
+                                        )}
+                                        {taxSource === 'ai' && (
+                                            <p className="mt-2 text-xs text-slate-500">This location isn't covered by the local tables, so the total above is the AI estimate.</p>
+                                        )}
+                                        {taxSource === 'local' && !taxBreakdown.regionCovered && (
+                                            <p className="mt-2 text-xs text-amber-700">Taxes marked "Not in tables" are not included for this location.</p>
+                                        )}
+                                        {aiTaxCachedAt && (
+                                            <p className="mt-2 text-xs text-slate-500">The AI tax figure was reused from {new Date(aiTaxCachedAt).toLocaleString(locale)}, when these same inputs were last estimated.</p>
+                                        )}
+                                        {taxCheckError && (
+                                            <p className="mt-2 text-xs text-amber-700">{taxCheckError} The figures above are from the local tax tables.</p>
+                                        )}
+                                    </div>
+                                )}
+                                {taxDiscrepancy && isSignificantDiscrepancy(taxDiscrepancy) && (
+                                    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" role="alert">
+                                        The AI estimates a net income of {formatCurrency(taxDiscrepancy.aiNetIncome)}, which differs from the local calculation by {formatCurrency(Math.abs(taxDiscrepancy.difference))} ({Math.round(taxDiscrepancy.relativeDifference * 100)}%). Double-check your location and filing status.
+                                    </div>
+                                )}
                                  <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                                     <p className="text-sm font-medium text-blue-800">Estimated Net Income</p>
-                                    <p className="text-2xl font-bold text-blue-900">{netIncome !== null ? currencyFormatter.format(netIncome) : '...'}</p>
+                                    <p className="text-2xl font-bold text-blue-900">{netIncome !== null ? formatCurrency(netIncome) : '...'}</p>
+                                    {taxDisclaimer && <p className="mt-1 text-xs text-blue-700">{taxDisclaimer}</p>}
                                 </div>
                                 <div className="p-4 bg-slate-100 rounded-lg">
                                     <p className="text-sm font-medium text-slate-600">Total Monthly Expenses</p>
-                                    <p className="text-2xl font-bold text-slate-800">{currencyFormatter.format(totalExpenses)}</p>
+                                    <p className="text-2xl font-bold text-slate-800">{formatCurrency(totalExpenses)}</p>
+                                    {categoryTotals.length > 0 && (
+                                        <ul className="mt-3 space-y-1 text-sm">
+                                            {categoryTotals.map(({ category, monthlyTotal, share }) => (
+                                                <li key={category} className="flex justify-between text-slate-600">
+                                                    <span>{CATEGORY_LABELS[category]} <span className="text-slate-400">({Math.round(share * 100)}%)</span></span>
+                                                    <span className="font-medium text-slate-700">{formatCurrency(monthlyTotal)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
                                 </div>
                                 <div className="p-4 bg-slate-100 rounded-lg">
                                     <p className="text-sm font-medium text-slate-600">Remaining Balance</p>
-                                    <p className={`text-3xl font-bold ${getBalanceColor(remainingBalance)}`}>{remainingBalance !== null ? currencyFormatter.format(remainingBalance) : '...'}</p>
+                                    <p className={`text-3xl font-bold ${getBalanceColor(remainingBalance)}`}>{remainingBalance !== null ? formatCurrency(remainingBalance) : '...'}</p>
                                 </div>
+                                {netIncome !== null && estimatedTax !== null && (
+                                    <div className="p-4 bg-slate-50 rounded-lg space-y-4">
+                                        <p className="text-sm font-medium text-slate-600">Where Your Money Goes</p>
+                                        <IncomeFlowChart
+                                            grossIncome={netIncome + estimatedTax + (taxBreakdown?.preTaxDeductions ?? 0)}
+                                            totalTax={estimatedTax}
+                                            preTaxDeductions={taxBreakdown?.preTaxDeductions ?? 0}
+                                            netIncome={netIncome}
+                                            categoryTotals={categoryTotals}
+                                            formatCurrency={formatCurrency}
+                                        />
+                                        <ExpenseDonutChart categoryTotals={categoryTotals} formatCurrency={formatCurrency} />
+                                    </div>
+                                )}
                                 <div className="pt-4">
                                     <h3 className="text-xl font-semibold mb-3 flex items-center gap-2">
                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>
                                         AI-Powered Analysis
                                     </h3>
-                                    {isLoading && loadingStatus === 'Analyzing your budget...' ? (
-                                        <div className="space-y-2 animate-pulse">
-                                            <div className="h-4 bg-slate-200 rounded w-full"></div>
-                                            <div className="h-4 bg-slate-200 rounded w-5/6"></div>
-                                            <div className="h-4 bg-slate-200 rounded w-3/4"></div>
+                                    {isAnalyzing ? (
+                                        <div aria-live="polite">
+                                            {extractPartialSummary(streamingText) && (
+                                                <p className="mb-3 text-slate-700">{extractPartialSummary(streamingText)}</p>
+                                            )}
+                                            <div className="space-y-2 animate-pulse">
+                                                <div className="h-4 bg-slate-200 rounded w-full"></div>
+                                                <div className="h-4 bg-slate-200 rounded w-5/6"></div>
+                                                <div className="h-4 bg-slate-200 rounded w-3/4"></div>
+                                            </div>
+                                            {streamingText && <p className="mt-2 text-xs text-slate-500">Receiving analysis… {streamingText.length} characters so far</p>}
                                         </div>
-                                    ) : (
-                                        <div className="prose prose-slate max-w-none text-slate-700 whitespace-pre-wrap">
-                                            {analysis || "Your personalized financial tips will appear here."}
+                                    ) : analysisError ? (
+                                        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" role="alert">
+                                            <p>{analysisError}</p>
+                                            <button
+                                                onClick={handleRetryAnalysis}
+                                                disabled={isLoading}
+                                                className="mt-2 font-semibold text-amber-900 underline hover:no-underline disabled:opacity-50"
+                                            >
+                                                Retry analysis
+                                            </button>
                                         </div>
+                                    ) : analysis ? (
+                                        <>
+                                            {analysis.cachedAt && (
+                                                <p className="mb-3 text-xs text-slate-500">
+                                                    Reused from {new Date(analysis.cachedAt).toLocaleString(locale)} because the budget hasn't changed since. Untick "Reuse the last AI analysis" for a fresh one.
+                                                </p>
+                                            )}
+                                            <AnalysisCards analysis={analysis} formatCurrency={formatCurrency} />
+                                        </>
+                                    ) : (
+                                        <p className="text-slate-700">Your personalized financial tips will appear here.</p>
+                                    )}
+                                    {chatContext && !isAnalyzing && (
+                                        <ChatPanel
+                                            key={activeProfile.id}
+                                            messages={activeProfile.chat}
+                                            context={chatContext}
+                                            expenses={expenses}
+                                            onUpdate={handleChatUpdate}
+                                            onApplyEdit={handleApplyChatEdit}
+                                            formatCurrency={formatCurrency}
+                                        />
                                     )}
                                 </div>
                             </div>
@@ -270,6 +823,41 @@ const App: React.FC = () => {
                         )}
                     </div>
                 </main>
+
+                <PlannerPanel
+                    country={country}
+                    goals={goals}
+                    debts={debts}
+                    strategy={payoffStrategy}
+                    onGoalsChange={setGoals}
+                    onDebtsChange={setDebts}
+                    onStrategyChange={setPayoffStrategy}
+                    plans={payoffPlans}
+                    debtExpenses={categoryTotals.find(c => c.category === 'debt')?.monthlyTotal ?? 0}
+                    formatCurrency={formatCurrency}
+                />
+
+                <ScenarioPanel
+                    key={activeProfile.id}
+                    baseline={currentInputs}
+                    scenarios={activeProfile.scenarios}
+                    onChange={handleScenariosChange}
+                    onApply={applyInputs}
+                />
+
+                <HistoryPanel history={activeProfile.history} country={country} />
+
+                <UsageMeter refreshKey={usageRefreshKey} />
+
+                {showImport && (
+                    <StatementImport
+                        expenses={expenses}
+                        onApply={handleApplyImport}
+                        onClose={() => setShowImport(false)}
+                        currency={currency}
+                        formatCurrency={formatCurrency}
+                    />
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { formatAmountInput, parseAmountInput } from '../services/locale';
+
+interface AmountInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type'> {
+    /** The amount in canonical form, e.g. "1234.56". */
+    value: string;
+    onChange: (value: string) => void;
+    locale: string;
+}
+
+/**
+ * A text input for amounts typed in the locale's format. While focused it keeps the text as typed
+ * and only reports it once it parses, so "12," can be on its way to "12,50" in German.
+ */
+const AmountInput: React.FC<AmountInputProps> = ({ value, onChange, locale, onFocus, onBlur, ...props }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+
+    return (
+        <input
+            {...props}
+            type="text"
+            inputMode="decimal"
+            value={draft ?? formatAmountInput(value, locale)}
+            onFocus={(e) => {
+                setDraft(formatAmountInput(value, locale));
+                onFocus?.(e);
+            }}
+            onChange={(e) => {
+                setDraft(e.target.value);
+                const parsed = parseAmountInput(e.target.value, locale);
+                if (parsed !== null) onChange(parsed);
+            }}
+            onBlur={(e) => {
+                setDraft(null);
+                onBlur?.(e);
+            }}
+            aria-invalid={draft !== null && parseAmountInput(draft, locale) === null}
+        />
+    );
+};
+
+export default AmountInput;
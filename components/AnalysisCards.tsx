@@ -0,0 +1,107 @@
+import React from 'react';
+import type { BenchmarkBucketName, BudgetAnalysis, FlagSeverity } from '../types';
+
+interface AnalysisCardsProps {
+    analysis: BudgetAnalysis;
+    formatCurrency: (value: number) => string;
+}
+
+const BUCKET_LABELS: Record<BenchmarkBucketName, string> = {
+    needs: 'Needs',
+    wants: 'Wants',
+    savings: 'Savings',
+};
+
+const SEVERITY_STYLES: Record<FlagSeverity, string> = {
+    info: 'bg-blue-50 border-blue-200 text-blue-800',
+    warning: 'bg-amber-50 border-amber-200 text-amber-800',
+    critical: 'bg-red-50 border-red-200 text-red-800',
+};
+
+const getScoreStyle = (score: number) => {
+    if (score >= 75) return { label: 'Healthy', color: 'text-green-600', bar: 'bg-green-500' };
+    if (score >= 50) return { label: 'Fair', color: 'text-amber-600', bar: 'bg-amber-500' };
+    return { label: 'Needs attention', color: 'text-red-600', bar: 'bg-red-500' };
+};
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const AnalysisCards: React.FC<AnalysisCardsProps> = ({ analysis, formatCurrency }) => {
+    const score = getScoreStyle(analysis.healthScore);
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div className="p-4 bg-slate-50 rounded-lg">
+                <div className="flex items-baseline justify-between">
+                    <p className="font-medium text-slate-600">Budget Health</p>
+                    <p className={`text-2xl font-bold ${score.color}`}>
+                        {analysis.healthScore}<span className="text-sm font-medium text-slate-500">/100 · {score.label}</span>
+                    </p>
+                </div>
+                <div className="mt-2 h-2 bg-slate-200 rounded-full" role="meter" aria-valuemin={0} aria-valuemax={100} aria-valuenow={analysis.healthScore} aria-label="Budget health score">
+                    <div className={`h-2 rounded-full ${score.bar}`} style={{ width: `${analysis.healthScore}%` }}></div>
+                </div>
+                <p className="mt-3 text-slate-700">{analysis.summary}</p>
+            </div>
+
+            <div className="p-4 bg-slate-50 rounded-lg">
+                <p className="font-medium text-slate-600 mb-3">50/30/20 Benchmark</p>
+                <div className="space-y-3">
+                    {(Object.keys(BUCKET_LABELS) as BenchmarkBucketName[]).map(name => {
+                        const bucket = analysis.benchmark[name];
+                        const overTarget = name === 'savings' ? bucket.actualShare < bucket.targetShare : bucket.actualShare > bucket.targetShare;
+                        return (
+                            <div key={name}>
+                                <div className="flex justify-between text-slate-600">
+                                    <span>{BUCKET_LABELS[name]} <span className="text-slate-400">({formatCurrency(bucket.monthlyAmount)})</span></span>
+                                    <span className={overTarget ? 'font-semibold text-amber-700' : 'font-semibold text-slate-800'}>
+                                        {percent(bucket.actualShare)} <span className="font-normal text-slate-400">/ {percent(bucket.targetShare)} target</span>
+                                    </span>
+                                </div>
+                                <div className="relative mt-1 h-2 bg-slate-200 rounded-full">
+                                    <div className={`h-2 rounded-full ${overTarget ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${Math.min(100, bucket.actualShare * 100)}%` }}></div>
+                                    <div className="absolute -top-1 h-4 w-0.5 bg-slate-700" style={{ left: `${bucket.targetShare * 100}%` }} aria-hidden="true"></div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <p className="mt-3 text-slate-700">{analysis.benchmark.comment}</p>
+            </div>
+
+            {analysis.flags.length > 0 && (
+                <ul className="space-y-2">
+                    {analysis.flags.map((flag, index) => (
+                        <li key={index} className={`p-3 border rounded-lg ${SEVERITY_STYLES[flag.severity]}`}>
+                            <span className="font-semibold capitalize">{flag.subject}:</span> {flag.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {analysis.recommendations.length > 0 && (
+                <div className="p-4 bg-slate-50 rounded-lg">
+                    <p className="font-medium text-slate-600 mb-3">Recommendations</p>
+                    <ol className="space-y-3">
+                        {analysis.recommendations.map((recommendation, index) => (
+                            <li key={index} className="flex gap-3">
+                                <span className="flex-shrink-0 h-6 w-6 flex items-center justify-center rounded-full bg-blue-600 text-white text-xs font-bold">{index + 1}</span>
+                                <div className="flex-grow">
+                                    <div className="flex justify-between gap-2">
+                                        <p className="font-semibold text-slate-800">{recommendation.title}</p>
+                                        {recommendation.estimatedMonthlySavings > 0 && (
+                                            <span className="flex-shrink-0 font-semibold text-green-600">+{formatCurrency(recommendation.estimatedMonthlySavings)}/mo</span>
+                                        )}
+                                    </div>
+                                    <p className="text-slate-600">{recommendation.detail}</p>
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnalysisCards;
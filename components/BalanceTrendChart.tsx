@@ -0,0 +1,80 @@
+import React, { useId } from 'react';
+import type { MonthlySnapshot } from '../types';
+
+interface BalanceTrendChartProps {
+    /** Oldest first, as stored on the profile. */
+    history: MonthlySnapshot[];
+    /** Locale the month labels are written in. */
+    locale: string;
+    formatCurrency: (value: number) => string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 72 };
+
+const formatMonthShort = (month: string, locale: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString(locale, { month: 'short', year: '2-digit' });
+};
+
+const BalanceTrendChart: React.FC<BalanceTrendChartProps> = ({ history, locale, formatCurrency }) => {
+    const titleId = useId();
+    const descId = useId();
+    if (history.length === 0) return null;
+
+    const values = history.map(snapshot => snapshot.remainingBalance);
+    // Always include zero so the line shows which months ended in the red.
+    const max = Math.max(...values, 0);
+    const min = Math.min(...values, 0);
+    const range = max - min || 1;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const x = (index: number) => PADDING.left + (history.length === 1 ? plotWidth / 2 : index * plotWidth / (history.length - 1));
+    const y = (value: number) => PADDING.top + (max - value) / range * plotHeight;
+
+    const points = history.map((snapshot, index) => ({ snapshot, x: x(index), y: y(snapshot.remainingBalance) }));
+    const line = points.map((p, index) => `${index === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ');
+    // Label every month while they fit, otherwise roughly six evenly spaced ones.
+    const labelEvery = Math.max(1, Math.ceil(history.length / 6));
+
+    const description = history
+        .map(snapshot => `${formatMonthShort(snapshot.month, locale)}: ${formatCurrency(snapshot.remainingBalance)}`)
+        .join('; ');
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-labelledby={`${titleId} ${descId}`}>
+            <title id={titleId}>Remaining balance by month</title>
+            <desc id={descId}>{description}</desc>
+            {[max, 0, min].filter((value, index, all) => all.indexOf(value) === index).map(value => (
+                <g key={value}>
+                    <line
+                        x1={PADDING.left}
+                        x2={WIDTH - PADDING.right}
+                        y1={y(value)}
+                        y2={y(value)}
+                        stroke={value === 0 ? '#94a3b8' : '#e2e8f0'}
+                        strokeDasharray={value === 0 ? undefined : '4 4'}
+                    />
+                    <text x={PADDING.left - 8} y={y(value)} textAnchor="end" dominantBaseline="middle" className="fill-slate-500 text-[11px]">
+                        {formatCurrency(value)}
+                    </text>
+                </g>
+            ))}
+            <path d={line} fill="none" stroke="#3b82f6" strokeWidth={2} />
+            {points.map(({ snapshot, x: px, y: py }, index) => (
+                <g key={snapshot.month}>
+                    <circle cx={px} cy={py} r={4} fill={snapshot.remainingBalance < 0 ? '#ef4444' : '#22c55e'}>
+                        <title>{`${formatMonthShort(snapshot.month, locale)}: ${formatCurrency(snapshot.remainingBalance)}`}</title>
+                    </circle>
+                    {index % labelEvery === 0 && (
+                        <text x={px} y={HEIGHT - 8} textAnchor="middle" className="fill-slate-500 text-[11px]">{formatMonthShort(snapshot.month, locale)}</text>
+                    )}
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+export default BalanceTrendChart;
@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { appendChatMessages, canApplyExpenseEdit, createChatMessage, toChatHistory } from '../services/chat';
+import { CATEGORY_LABELS, FREQUENCY_LABELS } from '../services/expenses';
+import { AiServiceError, sendChatMessage } from '../services/geminiService';
+import type { BudgetChatContext, ChatMessage, Expense, ExpenseEdit } from '../types';
+
+interface ChatPanelProps {
+    messages: ChatMessage[];
+    /** The current budget, sent with every message so answers reflect the latest figures. */
+    context: BudgetChatContext;
+    expenses: Expense[];
+    /** Updates the stored conversation; takes an updater because replies arrive after other changes. */
+    onUpdate: (update: (messages: ChatMessage[]) => ChatMessage[]) => void;
+    onApplyEdit: (edit: ExpenseEdit) => void;
+    formatCurrency: (value: number) => string;
+}
+
+const SUGGESTIONS = [
+    'How much should I cut from dining to save more each month?',
+    'Is my rent too high for where I live?',
+];
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, context, expenses, onUpdate, onApplyEdit, formatCurrency }) => {
+    const [draft, setDraft] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const endRef = useRef<HTMLDivElement | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [messages.length, isSending]);
+
+    const describeEdit = (edit: ExpenseEdit) => {
+        const details = `${formatCurrency(edit.amount)} ${FREQUENCY_LABELS[edit.frequency].toLowerCase()} (${CATEGORY_LABELS[edit.category]})`;
+        if (edit.action === 'add') return `Add ${edit.name}: ${details}`;
+        if (edit.action === 'remove') return `Remove ${edit.name}`;
+        const current = expenses.find(expense => expense.id === edit.expenseId);
+        return `Change ${current?.name ?? edit.name} to ${current && current.name !== edit.name ? `${edit.name}, ` : ''}${details}`;
+    };
+
+    const handleSend = async (text: string) => {
+        const message = text.trim();
+        if (!message || isSending) return;
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const userMessage = createChatMessage('user', message);
+        const history = toChatHistory(messages);
+        onUpdate(current => appendChatMessages(current, userMessage));
+        setDraft('');
+        setError(null);
+        setIsSending(true);
+
+        try {
+            const reply = await sendChatMessage(context, history, message, controller.signal);
+            onUpdate(current => appendChatMessages(current, createChatMessage('assistant', reply.text, reply.edits)));
+        } catch (err) {
+            // Put the question back so it can be sent again.
+            onUpdate(current => current.filter(m => m.id !== userMessage.id));
+            setDraft(message);
+            if (!controller.signal.aborted) {
+                console.error(err);
+                setError(err instanceof AiServiceError ? err.message : 'The AI could not answer right now. Please try again.');
+            }
+        } finally {
+            abortRef.current = null;
+            setIsSending(false);
+        }
+    };
+
+    const handleApply = (message: ChatMessage, index: number) => {
+        onApplyEdit(message.edits[index]);
+        onUpdate(current => current.map(m => m.id === message.id ? { ...m, appliedEdits: [...m.appliedEdits, index] } : m));
+    };
+
+    const handleClear = () => {
+        if (window.confirm('Clear this conversation?')) onUpdate(() => []);
+    };
+
+    return (
+        <div className="pt-6 mt-6 border-t border-slate-200">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold">Ask about your budget</h3>
+                {messages.length > 0 && !isSending && (
+                    <button onClick={handleClear} className="text-xs text-slate-500 hover:text-red-600">Clear</button>
+                )}
+            </div>
+
+            {messages.length > 0 && (
+                <div className="space-y-3 max-h-96 overflow-y-auto pr-1 mb-3 text-sm" aria-live="polite">
+                    {messages.map(message => (
+                        <div key={message.id} className={message.role === 'user' ? 'flex justify-end' : ''}>
+                            <div className={`rounded-lg p-3 ${message.role === 'user' ? 'bg-blue-600 text-white max-w-[85%]' : 'bg-slate-100 text-slate-800'}`}>
+                                <p className="whitespace-pre-line">{message.text}</p>
+                                {message.edits.length > 0 && (
+                                    <ul className="mt-3 space-y-2">
+                                        {message.edits.map((edit, index) => {
+                                            const applied = message.appliedEdits.includes(index);
+                                            const available = canApplyExpenseEdit(expenses, edit);
+                                            return (
+                                                <li key={index} className="p-2 bg-white border border-slate-200 rounded-md flex items-start justify-between gap-2">
+                                                    <div>
+                                                        <p className="font-medium">{describeEdit(edit)}</p>
+                                                        {edit.reason && <p className="text-xs text-slate-500">{edit.reason}</p>}
+                                                    </div>
+                                                    <button
+                                                        onClick={() => handleApply(message, index)}
+                                                        disabled={applied || !available}
+                                                        className="flex-shrink-0 px-2 py-1 text-xs font-semibold text-blue-700 bg-blue-50 hover:bg-blue-100 rounded disabled:text-slate-500 disabled:bg-slate-100 disabled:cursor-not-allowed"
+                                                    >
+                                                        {applied ? 'Applied' : available ? 'Apply' : edit.action === 'add' ? 'Expense limit reached' : 'Expense removed'}
+                                                    </button>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    {isSending && <p className="text-slate-500 animate-pulse">Thinking…</p>}
+                    <div ref={endRef} />
+                </div>
+            )}
+
+            {messages.length === 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                    {SUGGESTIONS.map(suggestion => (
+                        <button
+                            key={suggestion}
+                            onClick={() => handleSend(suggestion)}
+                            disabled={isSending}
+                            className="px-3 py-1 text-xs text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-full disabled:opacity-50"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <form
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSend(draft);
+                }}
+                className="flex gap-2"
+            >
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Ask a follow-up question"
+                    aria-label="Follow-up question"
+                    maxLength={2000}
+                    className="flex-grow px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                />
+                {isSending ? (
+                    <button
+                        type="button"
+                        onClick={() => abortRef.current?.abort()}
+                        className="px-4 py-2 font-semibold text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200"
+                    >
+                        Cancel
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        disabled={draft.trim() === ''}
+                        className="px-4 py-2 font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                    >
+                        Send
+                    </button>
+                )}
+            </form>
+            {error && <p className="text-red-500 text-sm mt-2" role="alert">{error}</p>}
+        </div>
+    );
+};
+
+export default ChatPanel;
@@ -0,0 +1,76 @@
+import React, { useId } from 'react';
+import { CATEGORY_COLORS, CATEGORY_LABELS } from '../services/expenses';
+import type { CategoryTotal } from '../types';
+
+interface ExpenseDonutChartProps {
+    categoryTotals: CategoryTotal[];
+    formatCurrency: (value: number) => string;
+}
+
+const SIZE = 160;
+const RADIUS = 70;
+const INNER_RADIUS = 44;
+
+const point = (radius: number, angle: number) => {
+    const x = SIZE / 2 + radius * Math.sin(angle);
+    const y = SIZE / 2 - radius * Math.cos(angle);
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+};
+
+/** A ring segment between two angles, measured clockwise from 12 o'clock. */
+function arcPath(start: number, end: number): string {
+    // A full circle can't be drawn as one arc, so a single category is stopped just short of it.
+    const sweep = Math.min(end - start, Math.PI * 2 - 0.001);
+    const stop = start + sweep;
+    const largeArc = sweep > Math.PI ? 1 : 0;
+    return [
+        `M${point(RADIUS, start)}`,
+        `A${RADIUS},${RADIUS} 0 ${largeArc} 1 ${point(RADIUS, stop)}`,
+        `L${point(INNER_RADIUS, stop)}`,
+        `A${INNER_RADIUS},${INNER_RADIUS} 0 ${largeArc} 0 ${point(INNER_RADIUS, start)}`,
+        'Z',
+    ].join(' ');
+}
+
+const ExpenseDonutChart: React.FC<ExpenseDonutChartProps> = ({ categoryTotals, formatCurrency }) => {
+    const titleId = useId();
+    const descId = useId();
+    const total = categoryTotals.reduce((sum, c) => sum + c.monthlyTotal, 0);
+    if (total <= 0) return null;
+
+    let angle = 0;
+    const segments = categoryTotals.map(c => {
+        const start = angle;
+        angle += c.share * Math.PI * 2;
+        return { ...c, path: arcPath(start, angle) };
+    });
+
+    const description = categoryTotals
+        .map(c => `${CATEGORY_LABELS[c.category]}: ${formatCurrency(c.monthlyTotal)} (${Math.round(c.share * 100)}%)`)
+        .join('; ');
+
+    return (
+        <div className="flex flex-wrap items-center gap-4">
+            <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-40 h-40 flex-shrink-0" role="img" aria-labelledby={`${titleId} ${descId}`}>
+                <title id={titleId}>{`Monthly expenses of ${formatCurrency(total)} by category`}</title>
+                <desc id={descId}>{description}</desc>
+                {segments.map(segment => (
+                    <path key={segment.category} d={segment.path} fill={CATEGORY_COLORS[segment.category]} stroke="#fff" strokeWidth={1} />
+                ))}
+                <text x={SIZE / 2} y={SIZE / 2 - 6} textAnchor="middle" className="fill-slate-500 text-[10px]">Total</text>
+                <text x={SIZE / 2} y={SIZE / 2 + 10} textAnchor="middle" className="fill-slate-800 text-[13px] font-semibold">{formatCurrency(total)}</text>
+            </svg>
+            <ul className="flex-grow space-y-1 text-sm" aria-hidden="true">
+                {categoryTotals.map(c => (
+                    <li key={c.category} className="flex items-center gap-2 text-slate-600">
+                        <span className="h-3 w-3 rounded-sm flex-shrink-0" style={{ backgroundColor: CATEGORY_COLORS[c.category] }}></span>
+                        <span className="flex-grow">{CATEGORY_LABELS[c.category]}</span>
+                        <span className="text-slate-400">{Math.round(c.share * 100)}%</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ExpenseDonutChart;
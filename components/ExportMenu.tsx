@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { budgetToCsv, BudgetImportError, createShareUrl, parseBudgetExport } from '../services/budgetExport';
+import type { ImportedBudget } from '../services/budgetExport';
+import { getMonthKey } from '../services/storage';
+import type { BudgetExport } from '../types';
+
+interface ExportMenuProps {
+    /** Builds the export from the current budget, with the latest results and analysis. */
+    createExport: () => BudgetExport;
+    /** Called with a budget read from an exported JSON file. */
+    onImport: (budget: ImportedBudget) => void;
+}
+
+const buttonClass = "px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition";
+
+const toFileName = (name: string) => `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'budget'}-${getMonthKey()}`;
+
+function download(contents: string, type: string, fileName: string) {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ createExport, onImport }) => {
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+    const handleExportJson = () => {
+        const data = createExport();
+        download(JSON.stringify(data, null, 2), 'application/json', `${toFileName(data.name)}.json`);
+        setMessage(null);
+    };
+
+    const handleExportCsv = () => {
+        const data = createExport();
+        download(budgetToCsv(data), 'text/csv', `${toFileName(data.name)}.csv`);
+        setMessage(null);
+    };
+
+    const handleShare = async () => {
+        const { name, inputs } = createExport();
+        const url = await createShareUrl(name, inputs, window.location.href);
+        try {
+            await navigator.clipboard.writeText(url);
+            setMessage({ text: 'Share link copied. It contains your inputs but no AI analysis.', isError: false });
+        } catch {
+            window.prompt('Copy this share link:', url);
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            onImport(parseBudgetExport(await file.text()));
+            setMessage({ text: `Imported "${file.name}" as a new budget.`, isError: false });
+        } catch (err) {
+            console.error(err);
+            setMessage({ text: err instanceof BudgetImportError ? err.message : 'The file could not be imported.', isError: true });
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    return (
+        <div className="mb-6">
+            <div className="flex flex-wrap gap-2">
+                <button onClick={handleExportJson} className={buttonClass}>Export JSON</button>
+                <button onClick={handleExportCsv} className={buttonClass}>Export CSV</button>
+                <button onClick={() => window.print()} className={buttonClass}>Print report</button>
+                <button onClick={handleShare} className={buttonClass}>Copy share link</button>
+                <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import JSON</button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    className="hidden"
+                    aria-label="Budget file to import"
+                />
+            </div>
+            {message && (
+                <p className={`mt-2 text-xs ${message.isError ? 'text-red-500' : 'text-slate-500'}`} role={message.isError ? 'alert' : 'status'}>{message.text}</p>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
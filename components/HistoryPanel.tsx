@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import BalanceTrendChart from './BalanceTrendChart';
+import { COUNTRY_SETTINGS, createCurrencyFormatter } from '../services/locale';
+import type { CountryCode, MonthlySnapshot } from '../types';
+
+interface HistoryPanelProps {
+    history: MonthlySnapshot[];
+    /** The budget's current country, whose locale months and amounts are written in. */
+    country: CountryCode;
+}
+
+const formatMonth = (month: string, locale: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, country }) => {
+    const [expandedMonth, setExpandedMonth] = useState<string | null>(null);
+
+    if (history.length === 0) return null;
+
+    const { locale } = COUNTRY_SETTINGS[country];
+    // Amounts in different currencies can't share an axis, so the chart shows the months in the latest one.
+    const chartCurrency = history[history.length - 1].currency;
+    const chartHistory = history.filter(snapshot => snapshot.currency === chartCurrency);
+
+    return (
+        <div className="mt-8 bg-white p-6 sm:p-8 rounded-2xl shadow-lg border border-slate-200">
+            <h2 className="text-2xl font-semibold mb-6 border-b pb-3">Monthly History</h2>
+            <div className="mb-6">
+                <BalanceTrendChart history={chartHistory} locale={locale} formatCurrency={createCurrencyFormatter(country, chartCurrency)} />
+                {chartHistory.length < history.length && (
+                    <p className="mt-2 text-xs text-slate-500">The chart only shows months recorded in {chartCurrency}.</p>
+                )}
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-slate-600">
+                            <th className="py-2 pr-4 font-medium">Month</th>
+                            <th className="py-2 pr-4 font-medium text-right">Net Income</th>
+                            <th className="py-2 pr-4 font-medium text-right">Taxes</th>
+                            <th className="py-2 pr-4 font-medium text-right">Expenses</th>
+                            <th className="py-2 pr-4 font-medium text-right">Remaining</th>
+                            <th className="py-2 font-medium text-right">Score</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[...history].reverse().map(snapshot => {
+                            const formatCurrency = createCurrencyFormatter(country, snapshot.currency);
+                            return (
+                                <React.Fragment key={snapshot.month}>
+                                    <tr
+                                        className="border-t border-slate-100 cursor-pointer hover:bg-slate-50"
+                                        onClick={() => setExpandedMonth(expandedMonth === snapshot.month ? null : snapshot.month)}
+                                        aria-expanded={expandedMonth === snapshot.month}
+                                    >
+                                        <td className="py-2 pr-4 font-medium text-slate-800">{formatMonth(snapshot.month, locale)}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(snapshot.netIncome)}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(snapshot.totalTax)}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(snapshot.totalExpenses)}</td>
+                                        <td className={`py-2 pr-4 text-right font-semibold ${snapshot.remainingBalance < 0 ? 'text-red-500' : 'text-green-500'}`}>
+                                            {formatCurrency(snapshot.remainingBalance)}
+                                        </td>
+                                        <td className="py-2 text-right">{snapshot.healthScore ?? '—'}</td>
+                                    </tr>
+                                    {expandedMonth === snapshot.month && (
+                                        <tr>
+                                            <td colSpan={6} className="pb-4 text-slate-700 whitespace-pre-wrap">
+                                                {snapshot.analysis || 'No AI analysis was saved for this month.'}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,169 @@
+import React, { useId } from 'react';
+import { CATEGORY_COLORS, CATEGORY_LABELS } from '../services/expenses';
+import type { CategoryTotal } from '../types';
+
+interface IncomeFlowChartProps {
+    grossIncome: number;
+    totalTax: number;
+    preTaxDeductions: number;
+    netIncome: number;
+    categoryTotals: CategoryTotal[];
+    formatCurrency: (value: number) => string;
+}
+
+interface FlowNode {
+    id: string;
+    label: string;
+    value: number;
+    column: number;
+    color: string;
+}
+
+interface FlowLink {
+    source: string;
+    target: string;
+    value: number;
+}
+
+interface PositionedNode extends FlowNode {
+    x: number;
+    y: number;
+    height: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const NODE_WIDTH = 12;
+const NODE_GAP = 6;
+const LABEL_SPACE = 170;
+const COLUMN_X = [0, (WIDTH - LABEL_SPACE) / 2, WIDTH - LABEL_SPACE];
+
+/**
+ * Links each source to the targets in order, splitting a target across two sources where one runs
+ * out, e.g. when expenses are paid partly from net income and partly from a shortfall.
+ */
+function pour(sources: FlowNode[], targets: FlowNode[]): FlowLink[] {
+    const links: FlowLink[] = [];
+    let sourceIndex = 0;
+    let sourceLeft = sources[0]?.value ?? 0;
+    for (const target of targets) {
+        let targetLeft = target.value;
+        while (targetLeft > 0.005 && sourceIndex < sources.length) {
+            const value = Math.min(sourceLeft, targetLeft);
+            if (value > 0) links.push({ source: sources[sourceIndex].id, target: target.id, value });
+            sourceLeft -= value;
+            targetLeft -= value;
+            if (sourceLeft <= 0.005) {
+                sourceIndex++;
+                sourceLeft = sources[sourceIndex]?.value ?? 0;
+            }
+        }
+    }
+    return links;
+}
+
+function buildFlow({ grossIncome, totalTax, preTaxDeductions, netIncome, categoryTotals }: IncomeFlowChartProps): { nodes: FlowNode[]; links: FlowLink[] } {
+    const totalExpenses = categoryTotals.reduce((sum, c) => sum + c.monthlyTotal, 0);
+    const remaining = netIncome - totalExpenses;
+
+    const gross: FlowNode = { id: 'gross', label: 'Gross income', value: grossIncome, column: 0, color: '#475569' };
+    const taxes: FlowNode = { id: 'taxes', label: 'Taxes', value: totalTax, column: 1, color: '#f59e0b' };
+    const deductions: FlowNode = { id: 'deductions', label: 'Pre-tax deductions', value: preTaxDeductions, column: 1, color: '#8b5cf6' };
+    const net: FlowNode = { id: 'net', label: 'Net income', value: netIncome, column: 1, color: '#3b82f6' };
+    const shortfall: FlowNode = { id: 'shortfall', label: 'Shortfall', value: Math.max(0, -remaining), column: 1, color: '#ef4444' };
+    const spending: FlowNode[] = categoryTotals.map(c => ({
+        id: c.category,
+        label: CATEGORY_LABELS[c.category],
+        value: c.monthlyTotal,
+        column: 2,
+        color: CATEGORY_COLORS[c.category],
+    }));
+    const left: FlowNode = { id: 'remaining', label: 'Remaining', value: Math.max(0, remaining), column: 2, color: '#22c55e' };
+
+    const nodes = [gross, taxes, deductions, net, shortfall, ...spending, left].filter(node => node.value > 0.005);
+    const links = [
+        { source: 'gross', target: 'taxes', value: taxes.value },
+        { source: 'gross', target: 'deductions', value: deductions.value },
+        { source: 'gross', target: 'net', value: net.value },
+        ...pour([net, shortfall], [...spending, left]),
+    ].filter(link => link.value > 0.005);
+    return { nodes, links };
+}
+
+function layout(nodes: FlowNode[]): Map<string, PositionedNode> {
+    const columns = [0, 1, 2].map(column => nodes.filter(node => node.column === column));
+    const maxGaps = Math.max(...columns.map(column => column.length - 1), 0);
+    const largestTotal = Math.max(...columns.map(column => column.reduce((sum, node) => sum + node.value, 0)), 1);
+    const scale = (HEIGHT - maxGaps * NODE_GAP) / largestTotal;
+
+    const positioned = new Map<string, PositionedNode>();
+    columns.forEach((column, index) => {
+        let y = 0;
+        for (const node of column) {
+            const height = node.value * scale;
+            positioned.set(node.id, { ...node, x: COLUMN_X[index], y, height });
+            y += height + NODE_GAP;
+        }
+    });
+    return positioned;
+}
+
+const IncomeFlowChart: React.FC<IncomeFlowChartProps> = (props) => {
+    const { formatCurrency } = props;
+    const titleId = useId();
+    const descId = useId();
+    const { nodes, links } = buildFlow(props);
+    const positioned = layout(nodes);
+
+    const outOffsets = new Map<string, number>();
+    const inOffsets = new Map<string, number>();
+    const bands = links.map(link => {
+        const source = positioned.get(link.source);
+        const target = positioned.get(link.target);
+        const thickness = link.value * (source.height / source.value);
+        const y0 = source.y + (outOffsets.get(source.id) ?? 0);
+        const y1 = target.y + (inOffsets.get(target.id) ?? 0);
+        outOffsets.set(source.id, (outOffsets.get(source.id) ?? 0) + thickness);
+        inOffsets.set(target.id, (inOffsets.get(target.id) ?? 0) + thickness);
+
+        const x0 = source.x + NODE_WIDTH;
+        const x1 = target.x;
+        const xm = (x0 + x1) / 2;
+        return {
+            key: `${link.source}-${link.target}`,
+            color: target.color,
+            path: `M${x0},${y0} C${xm},${y0} ${xm},${y1} ${x1},${y1} L${x1},${y1 + thickness} C${xm},${y1 + thickness} ${xm},${y0 + thickness} ${x0},${y0 + thickness} Z`,
+        };
+    });
+
+    const description = nodes
+        .filter(node => node.column > 0)
+        .map(node => `${node.label}: ${formatCurrency(node.value)}`)
+        .join('; ');
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-labelledby={`${titleId} ${descId}`}>
+            <title id={titleId}>{`Where your ${formatCurrency(props.grossIncome)} gross monthly income goes`}</title>
+            <desc id={descId}>{description}</desc>
+            {bands.map(band => (
+                <path key={band.key} d={band.path} fill={band.color} fillOpacity={0.25} />
+            ))}
+            {[...positioned.values()].map(node => (
+                <g key={node.id}>
+                    <rect x={node.x} y={node.y} width={NODE_WIDTH} height={Math.max(node.height, 1)} fill={node.color} rx={2} />
+                    <text
+                        x={node.column === 1 ? node.x - 6 : node.x + NODE_WIDTH + 6}
+                        y={node.y + node.height / 2}
+                        textAnchor={node.column === 1 ? 'end' : 'start'}
+                        dominantBaseline="middle"
+                        className="fill-slate-700 text-[11px]"
+                    >
+                        {node.height >= 10 || node.column !== 2 ? `${node.label} ${formatCurrency(node.value)}` : ''}
+                    </text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+export default IncomeFlowChart;
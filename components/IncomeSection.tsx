@@ -0,0 +1,200 @@
+import React from 'react';
+import AmountInput from './AmountInput';
+import {
+    AMOUNT_PERIOD_LABELS,
+    createDeduction,
+    createIncome,
+    DEDUCTION_TYPE_LABELS,
+    DEDUCTION_TYPES_BY_COUNTRY,
+    INCOME_TYPE_LABELS,
+    PAY_FREQUENCY_LABELS,
+    toMonthlyDeduction,
+    toMonthlyIncome,
+} from '../services/income';
+import { COUNTRY_SETTINGS, getCurrencySymbol } from '../services/locale';
+import { AMOUNT_PERIODS, INCOME_TYPES, PAY_FREQUENCIES } from '../types';
+import type { AmountPeriod, CountryCode, IncomeStream, PreTaxDeduction } from '../types';
+
+interface IncomeSectionProps {
+    country: CountryCode;
+    incomes: IncomeStream[];
+    deductions: PreTaxDeduction[];
+    onIncomesChange: (incomes: IncomeStream[]) => void;
+    onDeductionsChange: (deductions: PreTaxDeduction[]) => void;
+    formatCurrency: (value: number) => string;
+}
+
+const inputClass = 'px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition';
+const selectClass = 'flex-1 px-2 py-1 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition';
+
+const DEDUCTION_HINTS: Record<CountryCode, string> = {
+    US: '401(k), HSA and health premiums taken from W-2 pay before tax.',
+    CA: 'RRSP and pension plan contributions taken from pay before tax.',
+    GB: 'Workplace pension contributions taken from pay before tax.',
+    DE: 'Company pension (bAV) contributions taken from pay before tax.',
+};
+
+const RemoveIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
+);
+
+const IncomeSection: React.FC<IncomeSectionProps> = ({ country, incomes, deductions, onIncomesChange, onDeductionsChange, formatCurrency }) => {
+    const { locale } = COUNTRY_SETTINGS[country];
+    const currencySymbol = getCurrencySymbol(country);
+
+    const updateIncome = (id: number, changes: Partial<IncomeStream>) => {
+        onIncomesChange(incomes.map(income => income.id === id ? { ...income, ...changes } : income));
+    };
+
+    const updateDeduction = (id: number, changes: Partial<PreTaxDeduction>) => {
+        onDeductionsChange(deductions.map(deduction => deduction.id === id ? { ...deduction, ...changes } : deduction));
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <p className="block text-sm font-medium text-slate-700 mb-1">Income</p>
+                <div className="space-y-4">
+                    {incomes.map((income, index) => (
+                        <div key={income.id} className="space-y-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={income.name}
+                                    onChange={(e) => updateIncome(income.id, { name: e.target.value })}
+                                    placeholder={`Income ${index + 1}`}
+                                    aria-label="Income name"
+                                    className={`flex-grow ${inputClass}`}
+                                />
+                                <div className="relative">
+                                    <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">{currencySymbol}</span>
+                                    <AmountInput
+                                        value={income.amount}
+                                        onChange={(amount) => updateIncome(income.id, { amount })}
+                                        locale={locale}
+                                        placeholder="5000"
+                                        aria-label={`Gross amount for ${income.name || 'income'}`}
+                                        className="w-32 pl-7 pr-2 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                    />
+                                </div>
+                                <button
+                                    onClick={() => onIncomesChange(incomes.filter(i => i.id !== income.id))}
+                                    disabled={incomes.length === 1}
+                                    className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+                                    aria-label={`Remove ${income.name || 'income'}`}
+                                >
+                                    <RemoveIcon />
+                                </button>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm pr-11">
+                                <select
+                                    value={income.amountPeriod}
+                                    onChange={(e) => updateIncome(income.id, { amountPeriod: e.target.value as AmountPeriod })}
+                                    aria-label="Amount period"
+                                    className={selectClass}
+                                >
+                                    {AMOUNT_PERIODS.map(period => <option key={period} value={period}>{AMOUNT_PERIOD_LABELS[period]}</option>)}
+                                </select>
+                                <select
+                                    value={income.type}
+                                    onChange={(e) => updateIncome(income.id, { type: e.target.value as IncomeStream['type'] })}
+                                    aria-label="Income type"
+                                    className={selectClass}
+                                >
+                                    {INCOME_TYPES.map(type => <option key={type} value={type}>{INCOME_TYPE_LABELS[country][type]}</option>)}
+                                </select>
+                                <select
+                                    value={income.payFrequency}
+                                    onChange={(e) => updateIncome(income.id, { payFrequency: e.target.value as IncomeStream['payFrequency'] })}
+                                    aria-label="Paid"
+                                    className={selectClass}
+                                >
+                                    {PAY_FREQUENCIES.map(frequency => <option key={frequency} value={frequency}>{PAY_FREQUENCY_LABELS[frequency]}</option>)}
+                                </select>
+                            </div>
+                            {income.amountPeriod === 'annual' && toMonthlyIncome(income) > 0 && (
+                                <p className="text-xs text-slate-500">≈ {formatCurrency(toMonthlyIncome(income))} per month</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => onIncomesChange([...incomes, createIncome()])}
+                    className="mt-2 text-sm font-medium text-blue-600 hover:underline"
+                >
+                    Add income
+                </button>
+            </div>
+
+            <div>
+                <p className="block text-sm font-medium text-slate-700 mb-1">Pre-tax Deductions</p>
+                {deductions.length === 0 && (
+                    <p className="text-xs text-slate-500">{DEDUCTION_HINTS[country]}</p>
+                )}
+                <div className="space-y-4">
+                    {deductions.map((deduction, index) => (
+                        <div key={deduction.id} className="space-y-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={deduction.name}
+                                    onChange={(e) => updateDeduction(deduction.id, { name: e.target.value })}
+                                    placeholder={`Deduction ${index + 1}`}
+                                    aria-label="Deduction name"
+                                    className={`flex-grow ${inputClass}`}
+                                />
+                                <div className="relative">
+                                    <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">{currencySymbol}</span>
+                                    <AmountInput
+                                        value={deduction.amount}
+                                        onChange={(amount) => updateDeduction(deduction.id, { amount })}
+                                        locale={locale}
+                                        placeholder="300"
+                                        aria-label={`Amount for ${deduction.name || 'deduction'}`}
+                                        className="w-32 pl-7 pr-2 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                    />
+                                </div>
+                                <button
+                                    onClick={() => onDeductionsChange(deductions.filter(d => d.id !== deduction.id))}
+                                    className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors"
+                                    aria-label={`Remove ${deduction.name || 'deduction'}`}
+                                >
+                                    <RemoveIcon />
+                                </button>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm pr-11">
+                                <select
+                                    value={deduction.type}
+                                    onChange={(e) => updateDeduction(deduction.id, { type: e.target.value as PreTaxDeduction['type'] })}
+                                    aria-label="Deduction type"
+                                    className={selectClass}
+                                >
+                                    {DEDUCTION_TYPES_BY_COUNTRY[country].map(type => <option key={type} value={type}>{DEDUCTION_TYPE_LABELS[country][type]}</option>)}
+                                </select>
+                                <select
+                                    value={deduction.amountPeriod}
+                                    onChange={(e) => updateDeduction(deduction.id, { amountPeriod: e.target.value as AmountPeriod })}
+                                    aria-label="Amount period"
+                                    className={selectClass}
+                                >
+                                    {AMOUNT_PERIODS.map(period => <option key={period} value={period}>{AMOUNT_PERIOD_LABELS[period]}</option>)}
+                                </select>
+                            </div>
+                            {deduction.amountPeriod === 'annual' && toMonthlyDeduction(deduction) > 0 && (
+                                <p className="text-xs text-slate-500">≈ {formatCurrency(toMonthlyDeduction(deduction))} per month</p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => onDeductionsChange([...deductions, createDeduction()])}
+                    className="mt-2 text-sm font-medium text-blue-600 hover:underline"
+                >
+                    Add deduction
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default IncomeSection;
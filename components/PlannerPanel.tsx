@@ -0,0 +1,270 @@
+import React from 'react';
+import AmountInput from './AmountInput';
+import { COUNTRY_SETTINGS } from '../services/locale';
+import { createDebt, createGoal, PAYOFF_STRATEGY_LABELS } from '../services/planner';
+import type { PayoffPlan } from '../services/planner';
+import { PAYOFF_STRATEGIES } from '../types';
+import type { CountryCode, Debt, PayoffStrategy, SavingsGoal } from '../types';
+
+interface PlannerPanelProps {
+    country: CountryCode;
+    goals: SavingsGoal[];
+    debts: Debt[];
+    strategy: PayoffStrategy;
+    onGoalsChange: (goals: SavingsGoal[]) => void;
+    onDebtsChange: (debts: Debt[]) => void;
+    onStrategyChange: (strategy: PayoffStrategy) => void;
+    /** Both payoff orders projected from the last calculated remaining balance, or null before the first calculation. */
+    plans: Record<PayoffStrategy, PayoffPlan> | null;
+    /** Monthly total of expenses in the Debt category, where minimum payments are expected to be listed. */
+    debtExpenses: number;
+    formatCurrency: (value: number) => string;
+}
+
+const inputClass = "w-full px-2 py-1 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition bg-white";
+const addButtonClass = "text-sm font-medium text-blue-600 hover:underline";
+const removeButtonClass = "px-1 text-slate-500 hover:text-red-600";
+
+const formatMonth = (month: string | null, locale: string) => {
+    if (!month) return 'Over 30 years';
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString(locale, { month: 'short', year: 'numeric' });
+};
+
+const PlannerPanel: React.FC<PlannerPanelProps> = ({
+    country,
+    goals,
+    debts,
+    strategy,
+    onGoalsChange,
+    onDebtsChange,
+    onStrategyChange,
+    plans,
+    debtExpenses,
+    formatCurrency,
+}) => {
+    const { locale } = COUNTRY_SETTINGS[country];
+
+    const updateGoal = (id: number, changes: Partial<SavingsGoal>) => {
+        onGoalsChange(goals.map(goal => goal.id === id ? { ...goal, ...changes } : goal));
+    };
+
+    const updateDebt = (id: number, changes: Partial<Debt>) => {
+        onDebtsChange(debts.map(debt => debt.id === id ? { ...debt, ...changes } : debt));
+    };
+
+    const totalMinimums = debts.reduce((sum, debt) => sum + (parseFloat(debt.minimumPayment) || 0), 0);
+    const plan = plans?.[strategy];
+    const hasProjections = plan && (plan.goals.length > 0 || plan.debts.length > 0);
+
+    return (
+        <div className="mt-8 bg-white p-6 sm:p-8 rounded-2xl shadow-lg border border-slate-200">
+            <h2 className="text-2xl font-semibold mb-6 border-b pb-3">Savings Goals &amp; Debt Payoff</h2>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 text-sm">
+                <div>
+                    <h3 className="text-lg font-semibold mb-3">Goals</h3>
+                    <div className="space-y-3">
+                        {goals.map((goal, index) => (
+                            <div key={goal.id} className="grid grid-cols-[1fr_auto] gap-1">
+                                <input
+                                    type="text"
+                                    value={goal.name}
+                                    onChange={(e) => updateGoal(goal.id, { name: e.target.value })}
+                                    placeholder={`Goal ${index + 1}, e.g. Emergency fund`}
+                                    aria-label="Goal name"
+                                    className={inputClass}
+                                />
+                                <button onClick={() => onGoalsChange(goals.filter(g => g.id !== goal.id))} className={removeButtonClass} aria-label={`Remove ${goal.name || 'goal'}`}>×</button>
+                                <div className="grid grid-cols-3 gap-1">
+                                    <AmountInput
+                                        value={goal.targetAmount}
+                                        onChange={(targetAmount) => updateGoal(goal.id, { targetAmount })}
+                                        locale={locale}
+                                        placeholder="Target"
+                                        aria-label={`Target amount for ${goal.name || 'goal'}`}
+                                        className={inputClass}
+                                    />
+                                    <AmountInput
+                                        value={goal.currentAmount}
+                                        onChange={(currentAmount) => updateGoal(goal.id, { currentAmount })}
+                                        locale={locale}
+                                        placeholder="Saved"
+                                        aria-label={`Amount saved for ${goal.name || 'goal'}`}
+                                        className={inputClass}
+                                    />
+                                    <input
+                                        type="month"
+                                        value={goal.targetDate}
+                                        onChange={(e) => updateGoal(goal.id, { targetDate: e.target.value })}
+                                        aria-label={`Target date for ${goal.name || 'goal'}`}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => onGoalsChange([...goals, createGoal()])} className={`mt-2 ${addButtonClass}`}>Add goal</button>
+                </div>
+
+                <div>
+                    <h3 className="text-lg font-semibold mb-3">Debts</h3>
+                    <div className="space-y-3">
+                        {debts.map((debt, index) => (
+                            <div key={debt.id} className="grid grid-cols-[1fr_auto] gap-1">
+                                <input
+                                    type="text"
+                                    value={debt.name}
+                                    onChange={(e) => updateDebt(debt.id, { name: e.target.value })}
+                                    placeholder={`Debt ${index + 1}, e.g. Credit card`}
+                                    aria-label="Debt name"
+                                    className={inputClass}
+                                />
+                                <button onClick={() => onDebtsChange(debts.filter(d => d.id !== debt.id))} className={removeButtonClass} aria-label={`Remove ${debt.name || 'debt'}`}>×</button>
+                                <div className="grid grid-cols-3 gap-1">
+                                    <AmountInput
+                                        value={debt.balance}
+                                        onChange={(balance) => updateDebt(debt.id, { balance })}
+                                        locale={locale}
+                                        placeholder="Balance"
+                                        aria-label={`Balance of ${debt.name || 'debt'}`}
+                                        className={inputClass}
+                                    />
+                                    <AmountInput
+                                        value={debt.apr}
+                                        onChange={(apr) => updateDebt(debt.id, { apr })}
+                                        locale={locale}
+                                        placeholder="APR %"
+                                        aria-label={`APR of ${debt.name || 'debt'}`}
+                                        className={inputClass}
+                                    />
+                                    <AmountInput
+                                        value={debt.minimumPayment}
+                                        onChange={(minimumPayment) => updateDebt(debt.id, { minimumPayment })}
+                                        locale={locale}
+                                        placeholder="Minimum"
+                                        aria-label={`Minimum payment for ${debt.name || 'debt'}`}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => onDebtsChange([...debts, createDebt()])} className={`mt-2 ${addButtonClass}`}>Add debt</button>
+                    {debts.length > 0 && (
+                        <p className="mt-2 text-xs text-slate-500">
+                            Minimum payments should also be listed as expenses in the Debt category; the planner puts your remaining balance towards paying debts off faster.
+                        </p>
+                    )}
+                    {totalMinimums > debtExpenses + 0.5 && (
+                        <p className="mt-1 text-xs text-amber-700">
+                            Your minimum payments ({formatCurrency(totalMinimums)}) are more than your Debt expenses ({formatCurrency(debtExpenses)}), so the projections may be optimistic.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            {(goals.length > 0 || debts.length > 0) && (
+                <div className="mt-8 pt-6 border-t border-slate-200 text-sm">
+                    {!plans ? (
+                        <p className="text-slate-500">Calculate your budget to project when each goal is reached and each debt is paid off.</p>
+                    ) : !hasProjections ? (
+                        <p className="text-slate-500">Enter a target amount for a goal or a balance for a debt to see projections.</p>
+                    ) : (
+                        <div className="space-y-6">
+                            {plan.debts.length > 0 && (
+                                <fieldset>
+                                    <legend className="font-medium text-slate-600 mb-2">Payoff order</legend>
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                        {PAYOFF_STRATEGIES.map(option => (
+                                            <label
+                                                key={option}
+                                                className={`flex gap-2 p-3 rounded-lg border cursor-pointer ${option === strategy ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}
+                                            >
+                                                <input
+                                                    type="radio"
+                                                    name="payoffStrategy"
+                                                    checked={option === strategy}
+                                                    onChange={() => onStrategyChange(option)}
+                                                    className="mt-1"
+                                                />
+                                                <span>
+                                                    <span className="block font-medium text-slate-800">{PAYOFF_STRATEGY_LABELS[option]}</span>
+                                                    <span className="block text-slate-600">
+                                                        Debt-free {formatMonth(plans[option].debtFreeMonth, locale)}
+                                                        {plans[option].debtFreeMonth && `, ${formatCurrency(plans[option].totalInterest)} interest`}
+                                                    </span>
+                                                </span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </fieldset>
+                            )}
+
+                            <div className="overflow-x-auto">
+                                <table className="w-full">
+                                    <thead>
+                                        <tr className="text-left text-slate-600">
+                                            <th className="py-2 pr-4 font-medium">Goal or debt</th>
+                                            <th className="py-2 pr-4 font-medium text-right">Needed / Interest</th>
+                                            <th className="py-2 pr-4 font-medium text-right">Projected</th>
+                                            <th className="py-2 font-medium text-right">Status</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {plan.goals.map(({ goal, monthlyNeeded, reachedMonth, onTrack }) => (
+                                            <tr key={goal.id} className="border-t border-slate-200">
+                                                <td className="py-2 pr-4 text-slate-800">{goal.name || 'Savings goal'}</td>
+                                                <td className="py-2 pr-4 text-right">{monthlyNeeded !== null ? `${formatCurrency(monthlyNeeded)}/month` : '—'}</td>
+                                                <td className="py-2 pr-4 text-right">{formatMonth(reachedMonth, locale)}</td>
+                                                <td className={`py-2 text-right font-medium ${onTrack ? 'text-green-600' : 'text-amber-600'}`}>
+                                                    {onTrack ? (goal.targetDate ? 'On track' : 'Reached') : (reachedMonth ? `Late (due ${formatMonth(goal.targetDate, locale)})` : 'Not reached')}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                        {plan.debts.map(({ debt, paidOffMonth, interestPaid }) => (
+                                            <tr key={debt.id} className="border-t border-slate-200">
+                                                <td className="py-2 pr-4 text-slate-800">{debt.name || 'Debt'}</td>
+                                                <td className="py-2 pr-4 text-right">{paidOffMonth ? formatCurrency(interestPaid) : '—'}</td>
+                                                <td className="py-2 pr-4 text-right">{formatMonth(paidOffMonth, locale)}</td>
+                                                <td className={`py-2 text-right font-medium ${paidOffMonth ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {paidOffMonth ? 'Paid off' : 'Payments too low'}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <details>
+                                <summary className="cursor-pointer text-slate-600">Month by month ({plan.months.length} months)</summary>
+                                <div className="mt-2 max-h-80 overflow-y-auto">
+                                    <table className="w-full">
+                                        <thead>
+                                            <tr className="text-left text-slate-600">
+                                                <th className="py-1 pr-4 font-medium">Month</th>
+                                                <th className="py-1 pr-4 font-medium text-right">Debt remaining</th>
+                                                <th className="py-1 font-medium text-right">Saved towards goals</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {plan.months.map(entry => (
+                                                <tr key={entry.month} className="border-t border-slate-100">
+                                                    <td className="py-1 pr-4">{formatMonth(entry.month, locale)}</td>
+                                                    <td className="py-1 pr-4 text-right">{formatCurrency(entry.debtBalance)}</td>
+                                                    <td className="py-1 text-right">{formatCurrency(entry.saved)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </details>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PlannerPanel;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { CATEGORY_LABELS, FREQUENCY_LABELS, isValidExpense, toMonthlyAmount } from '../services/expenses';
+import { INCOME_TYPE_LABELS, isValidIncome, toMonthlyIncome } from '../services/income';
+import { COUNTRY_SETTINGS } from '../services/locale';
+import type { BudgetExport } from '../types';
+
+interface PrintReportProps {
+    data: BudgetExport;
+    formatCurrency: (value: number) => string;
+}
+
+const cellClass = 'py-1 pr-4';
+const amountClass = 'py-1 text-right';
+
+/** The budget laid out for paper. Hidden on screen; the rest of the app is hidden when printing. */
+const PrintReport: React.FC<PrintReportProps> = ({ data, formatCurrency }) => {
+    const { inputs, results, analysis } = data;
+    const { name: countryName, locale } = COUNTRY_SETTINGS[inputs.country];
+
+    return (
+        <div className="print-report hidden print:block text-sm text-black">
+            <header className="mb-6 border-b border-slate-400 pb-3">
+                <h1 className="text-2xl font-bold">{data.name}</h1>
+                <p className="text-slate-600">
+                    {inputs.location || 'No location'}, {countryName} · {inputs.filingStatus} · Printed {new Date(data.exportedAt).toLocaleDateString(locale, { dateStyle: 'long' })}
+                </p>
+            </header>
+
+            <section className="mb-6">
+                <h2 className="text-lg font-semibold mb-2">Income and Taxes (monthly)</h2>
+                <table className="w-full">
+                    <tbody>
+                        {inputs.incomes.filter(isValidIncome).map(income => (
+                            <tr key={income.id}>
+                                <td className={cellClass}>{income.name || 'Income'} <span className="text-slate-500">({INCOME_TYPE_LABELS[inputs.country][income.type]})</span></td>
+                                <td className={amountClass}>{formatCurrency(toMonthlyIncome(income))}</td>
+                            </tr>
+                        ))}
+                        {results?.taxSource === 'local' && results.taxBreakdown?.lines.map(line => (
+                            <tr key={line.label}>
+                                <td className={cellClass}>{line.label}</td>
+                                <td className={amountClass}>{line.covered ? `−${formatCurrency(line.amount)}` : 'Not in tables'}</td>
+                            </tr>
+                        ))}
+                        {results?.taxSource === 'ai' && (
+                            <tr>
+                                <td className={cellClass}>Taxes (AI estimate)</td>
+                                <td className={amountClass}>−{formatCurrency(results.totalTax)}</td>
+                            </tr>
+                        )}
+                        {results?.taxBreakdown && results.taxBreakdown.preTaxDeductions > 0 && (
+                            <tr>
+                                <td className={cellClass}>Pre-tax deductions</td>
+                                <td className={amountClass}>−{formatCurrency(results.taxBreakdown.preTaxDeductions)}</td>
+                            </tr>
+                        )}
+                        {results && (
+                            <tr className="border-t border-slate-400 font-semibold">
+                                <td className={cellClass}>Net income</td>
+                                <td className={amountClass}>{formatCurrency(results.netIncome)}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+                {!results && <p className="mt-2 text-slate-600">Taxes haven't been calculated for this budget yet.</p>}
+            </section>
+
+            <section className="mb-6">
+                <h2 className="text-lg font-semibold mb-2">Expenses</h2>
+                <table className="w-full">
+                    <thead>
+                        <tr className="text-left text-slate-600">
+                            <th className={`${cellClass} font-medium`}>Expense</th>
+                            <th className={`${cellClass} font-medium`}>Category</th>
+                            <th className={`${cellClass} font-medium`}>Frequency</th>
+                            <th className={`${amountClass} font-medium`}>Monthly</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {inputs.expenses.filter(isValidExpense).map(expense => (
+                            <tr key={expense.id}>
+                                <td className={cellClass}>{expense.name}</td>
+                                <td className={cellClass}>{CATEGORY_LABELS[expense.category]}</td>
+                                <td className={cellClass}>{FREQUENCY_LABELS[expense.frequency]}</td>
+                                <td className={amountClass}>{formatCurrency(toMonthlyAmount(expense))}</td>
+                            </tr>
+                        ))}
+                        {results && (
+                            <>
+                                <tr className="border-t border-slate-400 font-semibold">
+                                    <td className={cellClass} colSpan={3}>Total expenses</td>
+                                    <td className={amountClass}>{formatCurrency(results.totalExpenses)}</td>
+                                </tr>
+                                <tr className="font-semibold">
+                                    <td className={cellClass} colSpan={3}>Remaining balance</td>
+                                    <td className={amountClass}>{formatCurrency(results.remainingBalance)}</td>
+                                </tr>
+                            </>
+                        )}
+                    </tbody>
+                </table>
+            </section>
+
+            {(inputs.goals.length > 0 || inputs.debts.length > 0) && (
+                <section className="mb-6">
+                    <h2 className="text-lg font-semibold mb-2">Goals and Debts</h2>
+                    <ul className="space-y-1">
+                        {inputs.goals.map(goal => (
+                            <li key={goal.id}>
+                                {goal.name || 'Goal'}: {formatCurrency(parseFloat(goal.currentAmount) || 0)} of {formatCurrency(parseFloat(goal.targetAmount) || 0)}{goal.targetDate ? ` by ${goal.targetDate}` : ''}
+                            </li>
+                        ))}
+                        {inputs.debts.map(debt => (
+                            <li key={debt.id}>
+                                {debt.name || 'Debt'}: {formatCurrency(parseFloat(debt.balance) || 0)} at {debt.apr || 0}% APR, {formatCurrency(parseFloat(debt.minimumPayment) || 0)} minimum
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {analysis && (
+                <section>
+                    <h2 className="text-lg font-semibold mb-2">AI Analysis · Health score {analysis.healthScore}/100</h2>
+                    <p className="mb-3">{analysis.summary}</p>
+                    {analysis.recommendations.length > 0 && (
+                        <ol className="list-decimal pl-5 space-y-2">
+                            {analysis.recommendations.map((recommendation, index) => (
+                                <li key={index}>
+                                    <span className="font-medium">{recommendation.title}</span>
+                                    {recommendation.estimatedMonthlySavings > 0 && ` (saves about ${formatCurrency(recommendation.estimatedMonthlySavings)} a month)`}
+                                    <p>{recommendation.detail}</p>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                    <p className="mt-3 text-xs text-slate-500">The analysis is for informational purposes only and not financial advice.</p>
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default PrintReport;
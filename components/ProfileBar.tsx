@@ -0,0 +1,52 @@
+import React from 'react';
+import type { BudgetProfile } from '../types';
+
+interface ProfileBarProps {
+    profiles: BudgetProfile[];
+    activeProfileId: string;
+    onSelect: (id: string) => void;
+    onCreate: (name: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const buttonClass = "px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ProfileBar: React.FC<ProfileBarProps> = ({ profiles, activeProfileId, onSelect, onCreate, onRename, onDelete }) => {
+    const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+    const handleCreate = () => {
+        const name = window.prompt('Name for the new budget:', `Budget ${profiles.length + 1}`);
+        if (name?.trim()) onCreate(name.trim());
+    };
+
+    const handleRename = () => {
+        if (!activeProfile) return;
+        const name = window.prompt('Rename this budget:', activeProfile.name);
+        if (name?.trim()) onRename(activeProfile.id, name.trim());
+    };
+
+    const handleDelete = () => {
+        if (!activeProfile) return;
+        if (window.confirm(`Delete "${activeProfile.name}" and its saved history?`)) onDelete(activeProfile.id);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+            <label htmlFor="profile" className="text-sm font-medium text-slate-700">Budget</label>
+            <select
+                id="profile"
+                value={activeProfileId}
+                onChange={(e) => onSelect(e.target.value)}
+                className="flex-grow px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition bg-white"
+            >
+                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </select>
+            <button onClick={handleCreate} className={buttonClass}>New</button>
+            <button onClick={handleRename} className={buttonClass}>Rename</button>
+            <button onClick={handleDelete} disabled={profiles.length <= 1} className={buttonClass}>Delete</button>
+        </div>
+    );
+};
+
+export default ProfileBar;
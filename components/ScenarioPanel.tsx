@@ -0,0 +1,388 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import AmountInput from './AmountInput';
+import { createExpense, isValidExpense } from '../services/expenses';
+import { AiServiceError, compareScenarios, getBudgetAnalysis, getEstimatedNetIncome } from '../services/geminiService';
+import { AMOUNT_PERIOD_LABELS } from '../services/income';
+import { changeCountry, COUNTRY_SETTINGS, createCurrencyFormatter } from '../services/locale';
+import { comparePayoffStrategies, summarizePlan } from '../services/planner';
+import { createScenario, evaluateScenario, getScenarioDeltas, MAX_SCENARIOS } from '../services/scenarios';
+import type { ScenarioResult } from '../services/scenarios';
+import { getMonthKey } from '../services/storage';
+import { COUNTRIES, FILING_STATUSES_BY_COUNTRY } from '../types';
+import type { BudgetInputs, CountryCode, Expense, FilingStatus, IncomeStream, Scenario, ScenarioComparison, ScenarioSummary } from '../types';
+
+interface ScenarioPanelProps {
+    baseline: BudgetInputs;
+    scenarios: Scenario[];
+    onChange: (scenarios: Scenario[]) => void;
+    /** Replaces the main budget with the scenario's inputs. */
+    onApply: (inputs: BudgetInputs) => void;
+}
+
+const BASELINE_ID = 'baseline';
+const BASELINE_NAME = 'Current budget';
+
+const inputClass = "w-full px-2 py-1 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition bg-white";
+const buttonClass = "px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+interface DeltaProps {
+    value: number;
+    /** For taxes a decrease is the good direction. */
+    lowerIsBetter?: boolean;
+    formatCurrency: (value: number) => string;
+}
+
+const Delta: React.FC<DeltaProps> = ({ value, lowerIsBetter = false, formatCurrency }) => {
+    if (Math.abs(value) < 0.005) return <span className="text-xs text-slate-400">no change</span>;
+    const isBetter = lowerIsBetter ? value < 0 : value > 0;
+    return (
+        <span className={`text-xs font-semibold ${isBetter ? 'text-green-600' : 'text-red-500'}`}>
+            {value > 0 ? '+' : '−'}{formatCurrency(Math.abs(value))}
+        </span>
+    );
+};
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ baseline, scenarios, onChange, onApply }) => {
+    const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+    const [comparedInputs, setComparedInputs] = useState<string>('');
+    const [healthScores, setHealthScores] = useState<Record<string, number>>({});
+    const [status, setStatus] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // The panel is remounted for each profile, so switching budgets stops a running comparison.
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const columns = useMemo(() => [
+        { id: BASELINE_ID, name: BASELINE_NAME, inputs: baseline },
+        ...scenarios,
+    ].map(scenario => ({
+        ...scenario,
+        result: evaluateScenario(scenario.inputs),
+        formatCurrency: createCurrencyFormatter(scenario.inputs.country),
+    })), [baseline, scenarios]);
+
+    const baselineResult = columns[0].result;
+    const currentInputs = JSON.stringify(columns.map(column => column.inputs));
+    const canCompare = scenarios.length > 0 && columns.every(column => column.result !== null) && !status;
+
+    const updateScenario = (id: string, update: (scenario: Scenario) => Scenario) => {
+        onChange(scenarios.map(scenario => scenario.id === id ? update(scenario) : scenario));
+    };
+
+    const updateInputs = <K extends keyof BudgetInputs>(id: string, field: K, value: BudgetInputs[K]) => {
+        updateScenario(id, scenario => ({ ...scenario, inputs: { ...scenario.inputs, [field]: value } }));
+    };
+
+    const updateExpense = (id: string, expenseId: number, changes: Partial<Expense>) => {
+        updateScenario(id, scenario => ({
+            ...scenario,
+            inputs: {
+                ...scenario.inputs,
+                expenses: scenario.inputs.expenses.map(expense => expense.id === expenseId ? { ...expense, ...changes } : expense),
+            },
+        }));
+    };
+
+    const updateIncome = (id: string, incomeId: number, changes: Partial<IncomeStream>) => {
+        updateScenario(id, scenario => ({
+            ...scenario,
+            inputs: {
+                ...scenario.inputs,
+                incomes: scenario.inputs.incomes.map(income => income.id === incomeId ? { ...income, ...changes } : income),
+            },
+        }));
+    };
+
+    const updateCountry = (id: string, country: CountryCode) => {
+        updateScenario(id, scenario => ({ ...scenario, inputs: changeCountry(scenario.inputs, country) }));
+    };
+
+    const handleAdd = () => {
+        const name = window.prompt('Name for the new scenario:', `Scenario ${scenarios.length + 1}`);
+        if (name?.trim()) onChange([...scenarios, createScenario(name.trim(), baseline)]);
+    };
+
+    const handleRemove = (scenario: Scenario) => {
+        if (window.confirm(`Delete the "${scenario.name}" scenario?`)) onChange(scenarios.filter(s => s.id !== scenario.id));
+    };
+
+    const handleApply = (scenario: Scenario) => {
+        if (window.confirm(`Replace your current budget with "${scenario.name}"?`)) onApply(scenario.inputs);
+    };
+
+    /**
+     * Runs the regular tax check and analysis for every column, one at a time to stay within the
+     * server's rate limit, then asks the AI to compare the results.
+     */
+    const handleCompare = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setComparison(null);
+        setHealthScores({});
+
+        try {
+            const summaries: ScenarioSummary[] = [];
+            const scores: Record<string, number> = {};
+            for (const [index, { id, name, inputs, result }] of columns.entries()) {
+                setStatus(`Analyzing ${name} (${index + 1} of ${columns.length})...`);
+                let { netIncome, totalTax } = result;
+                if (!result.regionCovered && inputs.useAiTaxCheck) {
+                    ({ netIncome, totalTax } = await getEstimatedNetIncome(
+                        result.grossIncome,
+                        inputs.country,
+                        inputs.location,
+                        inputs.filingStatus,
+                        inputs.incomes,
+                        inputs.deductions,
+                        controller.signal
+                    ));
+                }
+                const remainingBalance = netIncome - result.totalExpenses;
+                const analysis = await getBudgetAnalysis(
+                    result.grossIncome,
+                    netIncome,
+                    inputs.location,
+                    result.currency,
+                    inputs.expenses.filter(isValidExpense),
+                    result.categoryTotals,
+                    result.totalExpenses,
+                    remainingBalance,
+                    summarizePlan(comparePayoffStrategies(inputs.goals, inputs.debts, remainingBalance, getMonthKey()), inputs.payoffStrategy),
+                    inputs.reuseAnalysis,
+                    controller.signal
+                );
+                scores[id] = analysis.healthScore;
+                setHealthScores({ ...scores });
+                summaries.push({
+                    name,
+                    currency: result.currency,
+                    location: inputs.location,
+                    filingStatus: inputs.filingStatus,
+                    grossIncome: result.grossIncome,
+                    netIncome,
+                    totalTax,
+                    totalExpenses: result.totalExpenses,
+                    remainingBalance,
+                    healthScore: analysis.healthScore,
+                    analysisSummary: analysis.summary,
+                });
+            }
+
+            setStatus('Comparing scenarios...');
+            setComparison(await compareScenarios(summaries, controller.signal));
+            setComparedInputs(currentInputs);
+        } catch (err) {
+            if (!controller.signal.aborted) {
+                console.error(err);
+                setError(err instanceof AiServiceError ? err.message : 'The AI comparison failed. Please try again.');
+            }
+        } finally {
+            abortRef.current = null;
+            setStatus('');
+        }
+    };
+
+    const renderResult = (result: ScenarioResult | null, isBaseline: boolean, formatCurrency: (value: number) => string) => {
+        if (!result) {
+            return <p className="text-xs text-slate-500">Enter an income and location to see results.</p>;
+        }
+        const deltas = !isBaseline && baselineResult ? getScenarioDeltas(result, baselineResult) : null;
+        const rows: { label: string; value: number; delta?: number; lowerIsBetter?: boolean }[] = [
+            { label: 'Net income', value: result.netIncome, delta: deltas?.netIncome },
+            { label: 'Taxes', value: result.totalTax, delta: deltas?.totalTax, lowerIsBetter: true },
+            { label: 'Expenses', value: result.totalExpenses },
+            { label: 'Remaining', value: result.remainingBalance, delta: deltas?.remainingBalance },
+        ];
+        return (
+            <>
+                <dl className="space-y-1">
+                    {rows.map(row => (
+                        <div key={row.label} className="flex justify-between gap-2">
+                            <dt className="text-slate-600">{row.label}</dt>
+                            <dd className="text-right">
+                                <span className="font-medium text-slate-800">{formatCurrency(row.value)}</span>
+                                {row.delta !== undefined && (
+                                    <span className="block"><Delta value={row.delta} lowerIsBetter={row.lowerIsBetter} formatCurrency={formatCurrency} /></span>
+                                )}
+                            </dd>
+                        </div>
+                    ))}
+                </dl>
+                {!isBaseline && baselineResult && !deltas && (
+                    <p className="mt-2 text-xs text-slate-500">In {result.currency} rather than {baselineResult.currency}, so no differences are shown.</p>
+                )}
+                {!result.regionCovered && (
+                    <p className="mt-2 text-xs text-amber-700">Regional taxes for this location aren't in the local tables and are not included.</p>
+                )}
+            </>
+        );
+    };
+
+    return (
+        <div className="mt-8 bg-white p-6 sm:p-8 rounded-2xl shadow-lg border border-slate-200">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-6 border-b pb-3">
+                <h2 className="text-2xl font-semibold">What-if Scenarios</h2>
+                <div className="flex gap-2">
+                    <button onClick={handleAdd} disabled={scenarios.length >= MAX_SCENARIOS} className={buttonClass}>Clone current budget</button>
+                    {status ? (
+                        <button onClick={() => abortRef.current?.abort()} className={buttonClass}>Cancel</button>
+                    ) : (
+                        <button onClick={handleCompare} disabled={!canCompare} className={buttonClass}>Compare with AI</button>
+                    )}
+                </div>
+            </div>
+
+            {scenarios.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                    Clone your budget to try out a move, a different filing status or a change in rent, and compare the results side by side.
+                </p>
+            ) : (
+                <div className="flex gap-4 overflow-x-auto pb-2 text-sm">
+                    {columns.map(({ id, name, inputs, result, formatCurrency }) => {
+                        const scenario = scenarios.find(s => s.id === id);
+                        return (
+                            <div key={id} className="flex-1 min-w-[15rem] p-4 bg-slate-50 rounded-lg space-y-3">
+                                {scenario ? (
+                                    <div className="flex items-center gap-1">
+                                        <input
+                                            type="text"
+                                            value={scenario.name}
+                                            onChange={(e) => updateScenario(id, s => ({ ...s, name: e.target.value }))}
+                                            aria-label="Scenario name"
+                                            className={`${inputClass} font-semibold`}
+                                        />
+                                        <button
+                                            onClick={() => handleRemove(scenario)}
+                                            className="p-1 text-slate-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors"
+                                            aria-label={`Delete ${scenario.name}`}
+                                        >
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <p className="py-1 font-semibold text-slate-800">{name}</p>
+                                )}
+
+                                {scenario ? (
+                                    <div className="space-y-2">
+                                        {inputs.incomes.map(income => (
+                                            <AmountInput
+                                                key={income.id}
+                                                value={income.amount}
+                                                onChange={(amount) => updateIncome(id, income.id, { amount })}
+                                                locale={COUNTRY_SETTINGS[inputs.country].locale}
+                                                aria-label={`${income.name || 'Income'} ${AMOUNT_PERIOD_LABELS[income.amountPeriod]}`}
+                                                placeholder={`${income.name || 'Income'} ${AMOUNT_PERIOD_LABELS[income.amountPeriod]}`}
+                                                className={inputClass}
+                                            />
+                                        ))}
+                                        <select
+                                            value={inputs.country}
+                                            onChange={(e) => updateCountry(id, e.target.value as CountryCode)}
+                                            aria-label="Country"
+                                            className={inputClass}
+                                        >
+                                            {COUNTRIES.map(country => <option key={country} value={country}>{COUNTRY_SETTINGS[country].name}</option>)}
+                                        </select>
+                                        <input
+                                            type="text"
+                                            value={inputs.location}
+                                            onChange={(e) => updateInputs(id, 'location', e.target.value)}
+                                            aria-label="Location"
+                                            placeholder="Location"
+                                            className={inputClass}
+                                        />
+                                        <select
+                                            value={inputs.filingStatus}
+                                            onChange={(e) => updateInputs(id, 'filingStatus', e.target.value as FilingStatus)}
+                                            aria-label="Filing status"
+                                            className={inputClass}
+                                        >
+                                            {FILING_STATUSES_BY_COUNTRY[inputs.country].map(status => <option key={status}>{status}</option>)}
+                                        </select>
+                                        <details>
+                                            <summary className="cursor-pointer text-slate-600">Expenses ({inputs.expenses.length})</summary>
+                                            <div className="mt-2 space-y-1">
+                                                {inputs.expenses.map(expense => (
+                                                    <div key={expense.id} className="flex gap-1">
+                                                        <input
+                                                            type="text"
+                                                            value={expense.name}
+                                                            onChange={(e) => updateExpense(id, expense.id, { name: e.target.value })}
+                                                            aria-label="Expense name"
+                                                            className={inputClass}
+                                                        />
+                                                        <AmountInput
+                                                            value={expense.amount}
+                                                            onChange={(amount) => updateExpense(id, expense.id, { amount })}
+                                                            locale={COUNTRY_SETTINGS[inputs.country].locale}
+                                                            aria-label={`Amount for ${expense.name || 'expense'}`}
+                                                            className={`${inputClass} w-24 flex-shrink-0`}
+                                                        />
+                                                        <button
+                                                            onClick={() => updateInputs(id, 'expenses', inputs.expenses.filter(e => e.id !== expense.id))}
+                                                            className="px-1 text-slate-500 hover:text-red-600"
+                                                            aria-label={`Remove ${expense.name || 'expense'}`}
+                                                        >
+                                                            ×
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                                <button
+                                                    onClick={() => updateInputs(id, 'expenses', [...inputs.expenses, createExpense({ currency: COUNTRY_SETTINGS[inputs.country].currency })])}
+                                                    className="text-blue-600 hover:underline"
+                                                >
+                                                    Add expense
+                                                </button>
+                                            </div>
+                                        </details>
+                                    </div>
+                                ) : (
+                                    <div className="space-y-1 text-slate-600">
+                                        <p>{inputs.location || 'No location'}, {COUNTRY_SETTINGS[inputs.country].name}</p>
+                                        <p>{inputs.filingStatus}</p>
+                                        <p>{inputs.expenses.length} expenses</p>
+                                    </div>
+                                )}
+
+                                <div className="pt-3 border-t border-slate-200">
+                                    {renderResult(result, !scenario, formatCurrency)}
+                                    {healthScores[id] !== undefined && (
+                                        <p className="mt-2 text-slate-600">Health score: <span className="font-semibold text-slate-800">{healthScores[id]}/100</span></p>
+                                    )}
+                                </div>
+
+                                {scenario && (
+                                    <button onClick={() => handleApply(scenario)} className="text-xs text-blue-600 hover:underline">
+                                        Use as my budget
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {status && <p className="mt-4 text-sm text-slate-600 animate-pulse" aria-live="polite">{status}</p>}
+            {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+            {comparison && (
+                <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+                    <p className="font-medium mb-2">AI comparison</p>
+                    <p>{comparison.summary}</p>
+                    {comparison.tradeoffs.length > 0 && (
+                        <ul className="mt-2 list-disc pl-5 space-y-1">
+                            {comparison.tradeoffs.map((tradeoff, index) => <li key={index}>{tradeoff}</li>)}
+                        </ul>
+                    )}
+                    {comparedInputs !== currentInputs && (
+                        <p className="mt-2 text-xs text-blue-700">The scenarios have changed since this comparison. Run it again for up-to-date advice.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScenarioPanel;
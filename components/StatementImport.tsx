@@ -0,0 +1,336 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CATEGORY_LABELS, FREQUENCY_LABELS, MAX_EXPENSES } from '../services/expenses';
+import { categorizeMerchants } from '../services/geminiService';
+import { csvToTransactions, guessColumnMapping, parseCsv } from '../services/importers/csv';
+import type { CsvColumnMapping, DateFormat } from '../services/importers/csv';
+import { buildImportSuggestions, findUncategorizedMerchants, mergeExpenses, suggestionsToExpenses } from '../services/importers/grouping';
+import { isOfx, parseOfx } from '../services/importers/ofx';
+import { EXPENSE_CATEGORIES } from '../types';
+import type { CurrencyCode, Expense, ExpenseCategory, ImportSuggestion, Transaction } from '../types';
+
+interface StatementImportProps {
+    /** The budget's current expenses, which a merge adds to. */
+    expenses: Expense[];
+    onApply: (expenses: Expense[], mode: 'merge' | 'replace') => void;
+    onClose: () => void;
+    /** Currency the statement is in, which the created expenses are labelled with. */
+    currency: CurrencyCode;
+    formatCurrency: (value: number) => string;
+}
+
+type Step = 'upload' | 'mapping' | 'review';
+
+const inputClass = "px-2 py-1 border border-slate-300 rounded-md bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition";
+const secondaryButtonClass = "px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition disabled:opacity-50 disabled:cursor-not-allowed";
+const primaryButtonClass = "px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition disabled:bg-slate-400 disabled:cursor-not-allowed";
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+    YMD: 'Year-Month-Day',
+    MDY: 'Month/Day/Year',
+    DMY: 'Day/Month/Year',
+};
+
+const StatementImport: React.FC<StatementImportProps> = ({ expenses, onApply, onClose, currency, formatCurrency }) => {
+    const [step, setStep] = useState<Step>('upload');
+    const [fileName, setFileName] = useState<string>('');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+    const [transactions, setTransactions] = useState<Transaction[]>([]);
+    const [suggestions, setSuggestions] = useState<ImportSuggestion[]>([]);
+    /** Changes made during review, by suggestion key, so they survive AI categorization rebuilding the list. */
+    const editsRef = useRef<Record<string, Partial<ImportSuggestion>>>({});
+    const [isCategorizing, setIsCategorizing] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const columnOptions = useMemo(() => {
+        const width = Math.max(0, ...rows.slice(0, 20).map(row => row.length));
+        return Array.from({ length: width }, (_, index) => ({
+            index,
+            label: mapping?.hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`,
+        }));
+    }, [rows, mapping?.hasHeader]);
+
+    const previewTransactions = useMemo(
+        () => (mapping ? csvToTransactions(rows.slice(0, (mapping.hasHeader ? 1 : 0) + 5), mapping) : []),
+        [rows, mapping]
+    );
+
+    const uncategorized = useMemo(() => findUncategorizedMerchants(transactions), [transactions]);
+
+    const showSuggestions = (parsed: Transaction[]) => {
+        const built = buildImportSuggestions(parsed);
+        if (built.length === 0) {
+            setError('No spending transactions were found in this file.');
+            return;
+        }
+        setTransactions(parsed);
+        setSuggestions(built);
+        editsRef.current = {};
+        setError(null);
+        setStep('review');
+    };
+
+    const handleFile = async (file: File) => {
+        setFileName(file.name);
+        setError(null);
+        const text = await file.text();
+        if (isOfx(text)) {
+            setRows([]);
+            setMapping(null);
+            showSuggestions(parseOfx(text));
+            return;
+        }
+        const parsedRows = parseCsv(text);
+        if (parsedRows.length === 0) {
+            setError('This file does not contain any rows.');
+            return;
+        }
+        setRows(parsedRows);
+        setMapping(guessColumnMapping(parsedRows));
+        setStep('mapping');
+    };
+
+    const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+        setMapping(prev => (prev ? { ...prev, ...changes } : prev));
+    };
+
+    const updateSuggestion = (key: string, changes: Partial<ImportSuggestion>) => {
+        setSuggestions(prev => prev.map(s => (s.key === key ? { ...s, ...changes } : s)));
+        editsRef.current = { ...editsRef.current, [key]: { ...editsRef.current[key], ...changes } };
+    };
+
+    const handleAiCategorize = async () => {
+        setIsCategorizing(true);
+        setError(null);
+        try {
+            const categories = await categorizeMerchants(uncategorized);
+            // The AI only fills in what the user hasn't set; rows whose key disappears had all their merchants regrouped.
+            setSuggestions(buildImportSuggestions(transactions, categories).map(s => ({ ...s, ...editsRef.current[s.key] })));
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'AI categorization failed.');
+        } finally {
+            setIsCategorizing(false);
+        }
+    };
+
+    const handleApply = (mode: 'merge' | 'replace') => {
+        const imported = suggestionsToExpenses(suggestions, currency);
+        const count = mode === 'replace' ? imported.length : mergeExpenses(expenses, imported).length;
+        if (count > MAX_EXPENSES) {
+            setError(`A budget can have at most ${MAX_EXPENSES} expenses, and this would leave it with ${count}. Untick some rows${mode === 'merge' ? ' or replace the current expenses instead' : ''}.`);
+            return;
+        }
+        onApply(imported, mode);
+    };
+
+    const selectedCount = suggestions.filter(s => s.include).length;
+
+    return (
+        <div className="fixed inset-0 z-10 flex items-center justify-center bg-slate-900/50 p-4" role="dialog" aria-modal="true" aria-labelledby="import-title">
+            <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white p-6 sm:p-8 rounded-2xl shadow-lg">
+                <div className="flex items-center justify-between mb-6 border-b pb-3">
+                    <h2 id="import-title" className="text-2xl font-semibold">Import Bank Statement</h2>
+                    <button onClick={onClose} className="p-2 text-slate-500 hover:text-slate-800 rounded-full" aria-label="Close import">✕</button>
+                </div>
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-slate-600">Upload a CSV, OFX or QFX export from your bank or credit card. The file is read in your browser. Merchant descriptions are only sent to the AI if you ask it to suggest categories.</p>
+                        <input
+                            type="file"
+                            accept=".csv,.ofx,.qfx,text/csv"
+                            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                            className="block w-full text-sm text-slate-600 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-600 hover:file:bg-blue-100"
+                        />
+                    </div>
+                )}
+
+                {step === 'mapping' && mapping && (
+                    <div className="space-y-4 text-sm">
+                        <p className="text-slate-600">Tell us which columns in <span className="font-medium">{fileName}</span> hold each value.</p>
+                        <div className="grid grid-cols-2 gap-4">
+                            <label className="flex flex-col gap-1">
+                                <span className="font-medium text-slate-700">Date</span>
+                                <select value={mapping.date} onChange={(e) => updateMapping({ date: Number(e.target.value) })} className={inputClass}>
+                                    {columnOptions.map(option => <option key={option.index} value={option.index}>{option.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                <span className="font-medium text-slate-700">Description</span>
+                                <select value={mapping.description} onChange={(e) => updateMapping({ description: Number(e.target.value) })} className={inputClass}>
+                                    {columnOptions.map(option => <option key={option.index} value={option.index}>{option.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                <span className="font-medium text-slate-700">Amount</span>
+                                <select
+                                    value={mapping.debit !== null ? 'split' : String(mapping.amount ?? 0)}
+                                    onChange={(e) => e.target.value === 'split'
+                                        ? updateMapping({ amount: null, debit: 0, credit: null })
+                                        : updateMapping({ amount: Number(e.target.value), debit: null, credit: null })}
+                                    className={inputClass}
+                                >
+                                    {columnOptions.map(option => <option key={option.index} value={option.index}>{option.label}</option>)}
+                                    <option value="split">Separate debit and credit columns</option>
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1">
+                                <span className="font-medium text-slate-700">Date format</span>
+                                <select value={mapping.dateFormat} onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })} className={inputClass}>
+                                    {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => <option key={format} value={format}>{DATE_FORMAT_LABELS[format]}</option>)}
+                                </select>
+                            </label>
+                            {mapping.debit !== null && (
+                                <>
+                                    <label className="flex flex-col gap-1">
+                                        <span className="font-medium text-slate-700">Debit (money out)</span>
+                                        <select value={mapping.debit} onChange={(e) => updateMapping({ debit: Number(e.target.value) })} className={inputClass}>
+                                            {columnOptions.map(option => <option key={option.index} value={option.index}>{option.label}</option>)}
+                                        </select>
+                                    </label>
+                                    <label className="flex flex-col gap-1">
+                                        <span className="font-medium text-slate-700">Credit (money in)</span>
+                                        <select
+                                            value={mapping.credit ?? ''}
+                                            onChange={(e) => updateMapping({ credit: e.target.value === '' ? null : Number(e.target.value) })}
+                                            className={inputClass}
+                                        >
+                                            <option value="">None</option>
+                                            {columnOptions.map(option => <option key={option.index} value={option.index}>{option.label}</option>)}
+                                        </select>
+                                    </label>
+                                </>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap gap-4">
+                            <label className="flex items-center gap-2 text-slate-700">
+                                <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => updateMapping({ hasHeader: e.target.checked })} className="h-4 w-4 rounded border-slate-300 text-blue-600" />
+                                First row is a header
+                            </label>
+                            {mapping.debit === null && (
+                                <label className="flex items-center gap-2 text-slate-700">
+                                    <input type="checkbox" checked={mapping.negateAmounts} onChange={(e) => updateMapping({ negateAmounts: e.target.checked })} className="h-4 w-4 rounded border-slate-300 text-blue-600" />
+                                    Purchases are shown as positive amounts
+                                </label>
+                            )}
+                        </div>
+                        <div>
+                            <p className="font-medium text-slate-700 mb-2">Preview</p>
+                            {previewTransactions.length > 0 ? (
+                                <table className="w-full">
+                                    <tbody>
+                                        {previewTransactions.map(transaction => (
+                                            <tr key={transaction.id} className="border-t border-slate-100">
+                                                <td className="py-1 pr-4 text-slate-500">{transaction.date}</td>
+                                                <td className="py-1 pr-4">{transaction.description}</td>
+                                                <td className={`py-1 text-right ${transaction.amount < 0 ? 'text-red-500' : 'text-green-600'}`}>{formatCurrency(transaction.amount)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            ) : (
+                                <p className="text-amber-700">No rows could be read with this mapping. Check the date and amount columns.</p>
+                            )}
+                        </div>
+                        <div className="flex justify-end gap-2 pt-2">
+                            <button onClick={() => setStep('upload')} className={secondaryButtonClass}>Back</button>
+                            <button onClick={() => showSuggestions(csvToTransactions(rows, mapping))} className={primaryButtonClass}>Continue</button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'review' && (
+                    <div className="space-y-4 text-sm">
+                        <p className="text-slate-600">
+                            We found {transactions.length} transactions. Recurring charges are listed individually; other spending is averaged per category per month.
+                        </p>
+                        {uncategorized.length > 0 && (
+                            <div className="flex items-center justify-between gap-4 p-3 bg-slate-50 rounded-lg">
+                                <span className="text-slate-600">
+                                    {uncategorized.length} merchants didn't match any category rule.
+                                    <span className="block text-xs text-slate-500">Suggesting categories sends these merchant descriptions to the server and its AI provider. Amounts and dates are not sent.</span>
+                                </span>
+                                <button onClick={handleAiCategorize} disabled={isCategorizing} className={secondaryButtonClass}>
+                                    {isCategorizing ? 'Categorizing...' : 'Suggest categories with AI'}
+                                </button>
+                            </div>
+                        )}
+                        <div className="max-h-80 overflow-y-auto">
+                            <table className="w-full">
+                                <thead>
+                                    <tr className="text-left text-slate-600">
+                                        <th className="py-2 pr-2 font-medium"><span className="sr-only">Include</span></th>
+                                        <th className="py-2 pr-2 font-medium">Expense</th>
+                                        <th className="py-2 pr-2 font-medium">Category</th>
+                                        <th className="py-2 pr-2 font-medium">Frequency</th>
+                                        <th className="py-2 font-medium text-right">Amount</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {suggestions.map(suggestion => (
+                                        <tr key={suggestion.key} className={`border-t border-slate-100 ${suggestion.include ? '' : 'opacity-50'}`}>
+                                            <td className="py-2 pr-2">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={suggestion.include}
+                                                    onChange={(e) => updateSuggestion(suggestion.key, { include: e.target.checked })}
+                                                    aria-label={`Include ${suggestion.name}`}
+                                                    className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-2">
+                                                <input
+                                                    type="text"
+                                                    value={suggestion.name}
+                                                    onChange={(e) => updateSuggestion(suggestion.key, { name: e.target.value })}
+                                                    className={`${inputClass} w-full`}
+                                                />
+                                                <span className="text-xs text-slate-500">
+                                                    {suggestion.transactionCount} transactions{suggestion.recurring ? ' · recurring' : ''}{suggestion.categorySource === 'ai' ? ' · AI category' : ''}
+                                                </span>
+                                            </td>
+                                            <td className="py-2 pr-2">
+                                                <select
+                                                    value={suggestion.category}
+                                                    onChange={(e) => updateSuggestion(suggestion.key, { category: e.target.value as ExpenseCategory })}
+                                                    className={inputClass}
+                                                >
+                                                    {EXPENSE_CATEGORIES.map(category => <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>)}
+                                                </select>
+                                            </td>
+                                            <td className="py-2 pr-2 text-slate-600">{FREQUENCY_LABELS[suggestion.frequency]}</td>
+                                            <td className="py-2 text-right font-medium">{formatCurrency(suggestion.amount)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {error && <p className="text-red-500 text-center">{error}</p>}
+                        <div className="flex flex-wrap justify-end gap-2 pt-2">
+                            <button onClick={() => setStep(rows.length > 0 ? 'mapping' : 'upload')} className={secondaryButtonClass}>Back</button>
+                            <button
+                                onClick={() => handleApply('merge')}
+                                disabled={selectedCount === 0}
+                                className={secondaryButtonClass}
+                            >
+                                Merge into expenses
+                            </button>
+                            <button
+                                onClick={() => handleApply('replace')}
+                                disabled={selectedCount === 0}
+                                className={primaryButtonClass}
+                            >
+                                Replace expenses
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step !== 'review' && error && <p className="text-red-500 text-sm mt-4 text-center">{error}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default StatementImport;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { AiServiceError, getUsageSummary } from '../services/geminiService';
+import type { AiUsageSummary, AiUsageTotals } from '../types';
+
+interface UsageMeterProps {
+    /** Changing it reloads the figures, e.g. after a calculation has made AI calls. */
+    refreshKey: number;
+}
+
+const TASK_LABELS: Record<string, string> = {
+    taxEstimate: 'Tax estimates',
+    budgetAnalysis: 'Budget analyses',
+    categorizeMerchants: 'Statement imports',
+    scenarioComparison: 'Scenario comparisons',
+    budgetChat: 'Chat replies',
+};
+
+// Costs are estimated in US dollars whatever the budget's currency, since that is what the AI is billed in.
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 });
+const tokens = new Intl.NumberFormat('en-US');
+
+const UsageMeter: React.FC<UsageMeterProps> = ({ refreshKey }) => {
+    const [summary, setSummary] = useState<AiUsageSummary | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        getUsageSummary(controller.signal)
+            .then(result => {
+                setSummary(result);
+                setError(null);
+            })
+            .catch(err => {
+                if (controller.signal.aborted) return;
+                console.error(err);
+                setError(err instanceof AiServiceError ? err.message : 'AI usage could not be loaded.');
+            });
+        return () => controller.abort();
+    }, [refreshKey]);
+
+    if (!summary) {
+        return error ? <p className="mt-8 text-center text-xs text-slate-500">{error}</p> : null;
+    }
+
+    const { totals, budgetUsd } = summary;
+    const share = budgetUsd ? Math.min(totals.costUsd / budgetUsd, 1) : 0;
+    const overBudget = budgetUsd !== null && totals.costUsd >= budgetUsd;
+
+    return (
+        <div className="mt-8 bg-white p-6 sm:p-8 rounded-2xl shadow-lg border border-slate-200">
+            <h2 className="text-2xl font-semibold mb-6 border-b pb-3">AI Usage This Month</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="font-medium text-slate-600">Estimated cost</p>
+                    <p className="text-lg font-bold text-slate-800">{summary.pricingKnown ? usd.format(totals.costUsd) : 'Unknown'}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="font-medium text-slate-600">AI calls</p>
+                    <p className="text-lg font-bold text-slate-800">{tokens.format(totals.calls)}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="font-medium text-slate-600">Input tokens</p>
+                    <p className="text-lg font-bold text-slate-800">{tokens.format(totals.inputTokens)}</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-lg">
+                    <p className="font-medium text-slate-600">Output tokens</p>
+                    <p className="text-lg font-bold text-slate-800">{tokens.format(totals.outputTokens)}</p>
+                </div>
+            </div>
+
+            {budgetUsd !== null && (
+                <div className="mt-4">
+                    <div className="flex justify-between text-sm text-slate-600 mb-1">
+                        <span>Monthly budget</span>
+                        <span>{usd.format(totals.costUsd)} of {usd.format(budgetUsd)}</span>
+                    </div>
+                    <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                        <div className={`h-full ${overBudget ? 'bg-red-500' : share > 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${share * 100}%` }} />
+                    </div>
+                    {overBudget && (
+                        <p className="mt-2 text-sm text-red-500" role="alert">The budget has been reached, so AI features are paused until next month.</p>
+                    )}
+                </div>
+            )}
+            {!summary.pricingKnown && (
+                <p className="mt-4 text-xs text-slate-500">Prices for this model are unknown. Set AI_INPUT_PRICE_PER_MILLION and AI_OUTPUT_PRICE_PER_MILLION on the server to estimate costs.</p>
+            )}
+
+            {Object.keys(summary.byTask).length > 0 && (
+                <table className="w-full text-sm mt-6">
+                    <thead>
+                        <tr className="text-left text-slate-600">
+                            <th className="py-2 pr-4 font-medium">Feature</th>
+                            <th className="py-2 pr-4 font-medium text-right">Calls</th>
+                            <th className="py-2 pr-4 font-medium text-right">Tokens</th>
+                            <th className="py-2 font-medium text-right">Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {(Object.entries(summary.byTask) as [string, AiUsageTotals][]).map(([task, usage]) => (
+                            <tr key={task} className="border-t border-slate-100">
+                                <td className="py-2 pr-4 text-slate-800">{TASK_LABELS[task] ?? task}</td>
+                                <td className="py-2 pr-4 text-right">{tokens.format(usage.calls)}</td>
+                                <td className="py-2 pr-4 text-right">{tokens.format(usage.inputTokens + usage.outputTokens)}</td>
+                                <td className="py-2 text-right">{summary.pricingKnown ? usd.format(usage.costUsd) : '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {summary.recentCalls.length > 0 && (
+                <details className="mt-4 text-sm">
+                    <summary className="cursor-pointer text-slate-600">Recent calls</summary>
+                    <ul className="mt-2 space-y-1 text-slate-600">
+                        {summary.recentCalls.map(call => (
+                            <li key={`${call.time}-${call.task}`} className="flex justify-between gap-2">
+                                <span>
+                                    {new Date(call.time).toLocaleString()} · {TASK_LABELS[call.task] ?? call.task} <span className="text-slate-400">({call.model})</span>
+                                </span>
+                                <span className="text-right">
+                                    {tokens.format(call.inputTokens)} in / {tokens.format(call.outputTokens)} out{summary.pricingKnown && ` · ${usd.format(call.costUsd)}`}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            <p className="mt-4 text-xs text-slate-500">Answers reused from the cache don't count. Costs are estimates from list prices.</p>
+        </div>
+    );
+};
+
+export default UsageMeter;
@@ -0,0 +1,122 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMeteredProvider } from './providers/meteredProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createRetryingProvider } from './providers/retryingProvider';
+import { getUsageMeter } from './usageMeter';
+
+import type { ChatTurn } from '../types';
+
+export type AiTask = 'taxEstimate' | 'budgetAnalysis' | 'categorizeMerchants' | 'scenarioComparison' | 'budgetChat';
+
+export type AiProviderName = 'gemini' | 'openai' | 'mock';
+
+/** Token counts of one call, as reported by the backend. Thinking tokens count as output. */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/** The subset of JSON Schema that every backend understands for structured output. */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+}
+
+export interface AiRequest {
+    task: AiTask;
+    prompt: string;
+    /** When set, the provider is asked for JSON matching this schema. */
+    responseSchema?: JsonSchema;
+    /** Instructions for the whole conversation, sent apart from the user's message where the backend supports it. */
+    systemInstruction?: string;
+    /** Earlier turns of a conversation, oldest first; `prompt` is then the new user message. */
+    history?: ChatTurn[];
+    /** The structured values the prompt was built from. */
+    input: Record<string, unknown>;
+    /** Aborts the upstream call, e.g. when the browser disconnects. */
+    signal?: AbortSignal;
+    /** Called once the backend has reported the call's token counts. */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AiProvider {
+    name: AiProviderName;
+    model: string;
+    generate(request: AiRequest): Promise<string>;
+    /** Yields the response text as the backend produces it. */
+    generateStream(request: AiRequest): AsyncIterable<string>;
+}
+
+export interface AiConfig {
+    provider: AiProviderName;
+    model: string;
+    apiKey?: string;
+    baseUrl?: string;
+}
+
+export class AiProviderError extends Error {
+    /** `status` is the upstream HTTP status, when the backend responded with an error. */
+    constructor(message: string, public status?: number) {
+        super(message);
+        this.name = 'AiProviderError';
+    }
+}
+
+/** Thrown instead of calling the backend once the monthly AI budget has been used up. */
+export class AiBudgetError extends AiProviderError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AiBudgetError';
+    }
+}
+
+const DEFAULT_MODELS: Record<AiProviderName, string> = {
+    gemini: 'gemini-2.5-flash',
+    openai: 'llama3.1',
+    mock: 'mock-fixtures',
+};
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export function getAiConfig(): AiConfig {
+    const requested = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+    const provider: AiProviderName = requested === 'openai' || requested === 'mock' ? requested : 'gemini';
+    return {
+        provider,
+        model: process.env.AI_MODEL || DEFAULT_MODELS[provider],
+        apiKey: provider === 'gemini' ? process.env.GEMINI_API_KEY : process.env.AI_API_KEY,
+        baseUrl: provider === 'openai' ? (process.env.AI_BASE_URL || DEFAULT_OPENAI_BASE_URL) : undefined,
+    };
+}
+
+export function createAiProvider(config: AiConfig): AiProvider {
+    switch (config.provider) {
+        case 'openai':
+            return createOpenAiCompatibleProvider(config);
+        case 'mock':
+            return createMockProvider(config);
+        default:
+            return createGeminiProvider(config);
+    }
+}
+
+let provider: AiProvider | null = null;
+
+export function getAiProvider(): AiProvider {
+    if (!provider) {
+        provider = createMeteredProvider(createRetryingProvider(createAiProvider(getAiConfig())), getUsageMeter());
+    }
+    return provider;
+}
+
+/** Replaces the configured provider, e.g. with a mock in tests. */
+export function setAiProvider(next: AiProvider | null): void {
+    provider = next;
+}
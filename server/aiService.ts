@@ -0,0 +1,468 @@
+import { AiProviderError, getAiProvider } from './aiProvider';
+import type { AiRequest, JsonSchema } from './aiProvider';
+import { AiResponseError, validateBudgetAnalysis, validateBudgetChatReply, validateMerchantCategories, validateScenarioComparison, validateTaxEstimate } from './responseValidation';
+import { BENCHMARK_TARGETS, computeBenchmark } from '../services/benchmark';
+import { CATEGORY_LABELS, FREQUENCY_LABELS, toMonthlyAmount } from '../services/expenses';
+import { DEDUCTION_TYPE_LABELS, INCOME_TYPE_LABELS } from '../services/income';
+import { EXPENSE_CATEGORIES, EXPENSE_EDIT_ACTIONS, EXPENSE_FREQUENCIES } from '../types';
+import type { BudgetAnalysis, BudgetBenchmark, BudgetChatContext, BudgetChatReply, CategoryTotal, ChatTurn, CountryCode, CurrencyCode, Expense, ExpenseCategory, MerchantToCategorize, PlanSummary, ScenarioComparison, ScenarioSummary, TaxEstimateDeduction, TaxEstimateIncome, TaxEstimateResult } from '../types';
+
+const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = { USD: '$', CAD: 'CA$', GBP: '£', EUR: '€' };
+
+/** Formats an amount for a prompt, e.g. "€1234.50" or "-$20.00". */
+const money = (amount: number, currency: CurrencyCode) => `${amount < 0 ? '-' : ''}${CURRENCY_SYMBOLS[currency]}${Math.abs(amount).toFixed(2)}`;
+
+const TAX_CURRENCIES: Record<CountryCode, CurrencyCode> = { US: 'USD', CA: 'CAD', GB: 'GBP', DE: 'EUR' };
+
+/** What the AI tax estimate should include for each country, and the simplifications the local tables make. */
+const TAX_REGIMES: Record<CountryCode, { scope: string; rules: string }> = {
+    US: {
+        scope: 'Consider US federal, state, and any applicable local/city taxes',
+        rules: 'Use standard deductions for your calculation. Apply self-employment tax to 1099 income and deduct half of it from taxable income. 401(k) contributions reduce income tax only; HSA contributions and health premiums also reduce Social Security and Medicare wages.',
+    },
+    CA: {
+        scope: 'Consider Canadian federal and provincial income tax, CPP (or QPP in Quebec) contributions and EI premiums',
+        rules: 'Use the basic personal amount, plus the spouse amount if the filing status says the spouse has no income. Self-employed income pays both halves of CPP and no EI. RRSP and pension plan contributions reduce income tax only.',
+    },
+    GB: {
+        scope: 'Consider UK income tax (Scottish rates in Scotland) and National Insurance',
+        rules: 'Use the standard personal allowance, tapered above £100,000, plus the Marriage Allowance if the filing status says so. Employment income pays Class 1 and self-employed income Class 4 National Insurance. Workplace pension contributions reduce income tax only.',
+    },
+    DE: {
+        scope: 'Consider German income tax, the solidarity surcharge and the employee share of statutory pension, unemployment, health and care insurance, but not church tax',
+        rules: 'Use the standard allowances for employment and special expenses; a married status means joint assessment with income splitting. Self-employed income pays the full rates of voluntary statutory health and care insurance and no pension insurance. Company pension contributions reduce income tax only.',
+    },
+};
+
+const TAX_ESTIMATE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        estimatedNetIncome: { type: 'number', description: "The estimated monthly income after all taxes." },
+        estimatedTotalTax: { type: 'number', description: "The total estimated monthly tax amount." },
+        disclaimer: { type: 'string', description: "A brief disclaimer." }
+    },
+    required: ["estimatedNetIncome", "estimatedTotalTax", "disclaimer"]
+};
+
+const BUDGET_ANALYSIS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        healthScore: { type: 'integer', minimum: 0, maximum: 100, description: "Overall financial health from 0 (critical) to 100 (excellent)." },
+        summary: { type: 'string', description: "A short, encouraging summary of the budget in 2-3 sentences." },
+        benchmarkComment: { type: 'string', description: "One or two sentences comparing the budget with the 50/30/20 benchmark." },
+        flags: {
+            type: 'array',
+            description: "Notable observations about individual expenses or categories.",
+            items: {
+                type: 'object',
+                properties: {
+                    subject: { type: 'string', description: "The expense or category the flag is about." },
+                    severity: { type: 'string', enum: ['info', 'warning', 'critical'] },
+                    message: { type: 'string', description: "A short observation, e.g. 'Housing is 45% of net income'." }
+                },
+                required: ["subject", "severity", "message"]
+            }
+        },
+        recommendations: {
+            type: 'array',
+            description: "Actionable recommendations, most impactful first.",
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    detail: { type: 'string' },
+                    estimatedMonthlySavings: { type: 'number', minimum: 0, description: "Estimated monthly savings in the budget's currency." }
+                },
+                required: ["title", "detail", "estimatedMonthlySavings"]
+            }
+        }
+    },
+    required: ["healthScore", "summary", "benchmarkComment", "flags", "recommendations"]
+};
+
+const SCENARIO_COMPARISON_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: "Two or three sentences on how the scenarios compare overall." },
+        tradeoffs: {
+            type: 'array',
+            description: "One short trade-off per alternative scenario, each naming the scenario.",
+            items: { type: 'string' }
+        }
+    },
+    required: ["summary", "tradeoffs"]
+};
+
+const BUDGET_CHAT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        reply: { type: 'string', description: "The answer to the user's message, in a few short paragraphs at most." },
+        edits: {
+            type: 'array',
+            description: "Concrete changes to the expense list the user could make, only when they follow from the answer. Usually empty.",
+            items: {
+                type: 'object',
+                properties: {
+                    action: { type: 'string', enum: [...EXPENSE_EDIT_ACTIONS] },
+                    expenseNumber: { type: 'integer', description: "The number of the expense to update or remove, as listed. 0 when adding." },
+                    name: { type: 'string' },
+                    amount: { type: 'number', minimum: 0, description: "New amount per frequency period, in the budget's currency." },
+                    category: { type: 'string', enum: [...EXPENSE_CATEGORIES] },
+                    frequency: { type: 'string', enum: [...EXPENSE_FREQUENCIES] },
+                    reason: { type: 'string', description: "One short sentence on why." }
+                },
+                required: ["action", "expenseNumber", "name", "amount", "category", "frequency", "reason"]
+            }
+        }
+    },
+    required: ["reply", "edits"]
+};
+
+const CATEGORIZE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        categories: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    key: { type: 'string', description: "The merchant key exactly as given." },
+                    category: { type: 'string', enum: [...EXPENSE_CATEGORIES], description: "The best-fitting budget category." }
+                },
+                required: ["key", "category"]
+            }
+        }
+    },
+    required: ["categories"]
+};
+
+export async function getEstimatedNetIncome(
+    grossMonthlyIncome: number,
+    country: CountryCode,
+    location: string,
+    filingStatus: string,
+    incomes: TaxEstimateIncome[],
+    deductions: TaxEstimateDeduction[],
+    signal?: AbortSignal
+): Promise<TaxEstimateResult> {
+    const currency = TAX_CURRENCIES[country];
+    const incomeLabels = INCOME_TYPE_LABELS[country];
+    const incomeList = incomes.length > 0
+        ? incomes.map(i => `${incomeLabels[i.type]} ${money(i.monthlyAmount, currency)}`).join('; ')
+        : `all ${incomeLabels.w2} income`;
+    const deductionTotal = deductions.reduce((sum, d) => sum + d.monthlyAmount, 0);
+    const deductionList = deductions.length > 0
+        ? deductions.map(d => `${DEDUCTION_TYPE_LABELS[country][d.type]} ${money(d.monthlyAmount, currency)}`).join('; ')
+        : 'none';
+    const regime = TAX_REGIMES[country];
+
+     const prompt = `Act as a tax calculator. Based on the user's details, estimate their monthly net income. All amounts are in ${currency}.
+        - Gross Monthly Income: ${money(grossMonthlyIncome, currency)}
+        - Income Sources (monthly): ${incomeList}
+        - Pre-tax Payroll Deductions (monthly, taken from ${incomeLabels.w2} income): ${deductionList}
+        - Location: "${location}" (${regime.scope})
+        - Tax Filing Status: "${filingStatus}"
+        
+        ${regime.rules} Provide the result as a JSON object in ${currency}. The JSON object should contain 'estimatedNetIncome' (number, take-home pay after taxes and after the pre-tax deductions), 'estimatedTotalTax' (number), and a brief one-sentence 'disclaimer' stating that this is an estimate for informational purposes only and not financial advice.`;
+
+    try {
+        const text = await getAiProvider().generate({
+            task: 'taxEstimate',
+            prompt,
+            responseSchema: TAX_ESTIMATE_SCHEMA,
+            input: { grossMonthlyIncome, country, location, filingStatus, incomes, deductions },
+            signal,
+        });
+
+        return validateTaxEstimate(text, grossMonthlyIncome, deductionTotal);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Error calling AI provider for tax estimation:", error);
+        if (error instanceof AiProviderError || error instanceof AiResponseError) throw error;
+        throw new Error("Failed to generate tax estimation from AI.");
+    }
+}
+
+
+function describePlan(plan: PlanSummary, currency: CurrencyCode): string {
+    const goals = plan.goals.map(g => {
+        const deadline = g.targetDate ? ` by ${g.targetDate}` : '';
+        const projected = g.projectedDate ? `projected ${g.projectedDate}` : 'not reached within 30 years';
+        return `- Goal "${g.name}": ${money(g.currentAmount, currency)} of ${money(g.targetAmount, currency)}${deadline}, ${projected}${g.onTrack ? '' : ' (off track)'}`;
+    });
+    const debts = plan.debts.map(d => {
+        const payoff = d.projectedPayoffDate
+            ? `paid off ${d.projectedPayoffDate}, ${money(d.interestPaid, currency)} interest`
+            : 'not paid off within 30 years at this rate';
+        return `- Debt "${d.name}": ${money(d.balance, currency)} at ${d.apr}% APR, ${money(d.minimumPayment, currency)} minimum, ${payoff}`;
+    });
+    const totals = plan.debts.length > 0 && plan.debtFreeDate
+        ? [`- Debt-free ${plan.debtFreeDate}; total interest ${money(plan.totalInterest, currency)} (the other payoff order: ${money(plan.alternativeTotalInterest, currency)})`]
+        : [];
+    return [...goals, ...debts, ...totals].join('\n');
+}
+
+/** Builds the analysis prompt along with the locally computed benchmark the response is merged with. */
+function buildBudgetAnalysisPrompt(
+    grossIncome: number,
+    netIncome: number,
+    location: string,
+    currency: CurrencyCode,
+    expenses: Expense[],
+    categoryTotals: CategoryTotal[],
+    totalExpenses: number,
+    remainingBalance: number,
+    plan: PlanSummary | null
+): { request: AiRequest; benchmark: Omit<BudgetBenchmark, 'comment'> } {
+    const expenseList = expenses
+        .map(e => {
+            const details = `${CATEGORY_LABELS[e.category]}, ${e.tag}`;
+            const monthly = `${money(toMonthlyAmount(e), e.currency)}/month`;
+            return e.frequency === 'monthly'
+                ? `- ${e.name} (${details}): ${monthly}`
+                : `- ${e.name} (${details}): ${money(parseFloat(e.amount), e.currency)} ${FREQUENCY_LABELS[e.frequency].toLowerCase()}, about ${monthly}`;
+        })
+        .join('\n');
+
+    const percentOfNet = (amount: number) => netIncome > 0 ? `${Math.round(amount / netIncome * 100)}% of net income` : 'n/a';
+    const categoryList = categoryTotals
+        .map(c => `- ${CATEGORY_LABELS[c.category]}: ${money(c.monthlyTotal, currency)} (${Math.round(c.share * 100)}% of expenses, ${percentOfNet(c.monthlyTotal)})`)
+        .join('\n');
+
+    const benchmark = computeBenchmark(netIncome, categoryTotals, remainingBalance);
+    const benchmarkList = (['needs', 'wants', 'savings'] as const)
+        .map(name => `- ${name}: ${Math.round(benchmark[name].actualShare * 100)}% of net income (target ${Math.round(BENCHMARK_TARGETS[name] * 100)}%)`)
+        .join('\n');
+
+    const planSection = plan ? `- **Savings Goals and Debt Payoff Plan (projected month by month, ${plan.strategy} order, remaining balance plus freed-up minimum payments allocated to them):**
+${describePlan(plan, currency)}
+` : '';
+
+    const prompt = `
+You are a friendly and insightful financial assistant. A user has provided their monthly budget information. Your task is to provide a brief, encouraging, and helpful analysis of their budget.
+
+**User's Financial Details (all amounts in ${currency}):**
+- **Location:** ${location}
+- **Gross Monthly Income:** ${money(grossIncome, currency)}
+- **Estimated Net Monthly Income (After Tax):** ${money(netIncome, currency)}
+- **Expenses (normalized to monthly amounts):**
+${expenseList}
+- **Monthly Spending by Category:**
+${categoryList}
+- **Total Monthly Expenses:** ${money(totalExpenses, currency)}
+- **Remaining Balance:** ${money(remainingBalance, currency)}
+- **50/30/20 Benchmark (needs / wants / savings, remaining balance counted as savings):**
+${benchmarkList}
+${planSection}
+**Your Task:**
+Analyze this budget and respond with a JSON object. Follow these instructions:
+1.  **Tone:** Be positive, encouraging, and non-judgmental, regardless of the remaining balance.
+2.  **healthScore:** Rate their overall financial health from 0 to 100, considering the remaining balance, the benchmark and any outsized categories.
+3.  **summary:** In 2-3 sentences, comment on their situation. If the balance is positive, congratulate them. If it's negative, be reassuring and focus on next steps.
+4.  **benchmarkComment:** Compare their needs/wants/savings split with the benchmark above. Use the percentages given; do not recompute them.
+5.  **flags:** Point out expenses or categories that stand out, such as housing above 30% of net income, quoting the percentages given above. Use "critical" only for problems that put the budget at risk.
+6.  **recommendations:** List up to four concrete actions, most impactful first, each with a realistic estimate of monthly savings in ${currency} (0 for actions that don't save money, such as investing a surplus). The location might influence the advice (e.g., high cost of living area, or country-specific savings vehicles).
+7.  **Format:** Write in clear, easy-to-understand language without markdown, speaking directly to the user.
+8.  **Plan:** If a savings and debt plan is given, reflect its projected dates in the summary and recommendations, for example goals that are off track or interest saved by switching payoff order. Use the dates and amounts given; do not recompute them.
+`;
+
+    return {
+        request: {
+            task: 'budgetAnalysis',
+            prompt,
+            responseSchema: BUDGET_ANALYSIS_SCHEMA,
+            input: { grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance },
+        },
+        benchmark,
+    };
+}
+
+function handleBudgetAnalysisError(error: unknown, signal?: AbortSignal): never {
+    if (signal?.aborted) throw error;
+    console.error("Error calling AI provider for budget analysis:", error);
+    if (error instanceof AiProviderError || error instanceof AiResponseError) throw error;
+    throw new Error("Failed to generate budget analysis from AI.");
+}
+
+export async function getBudgetAnalysis(
+    grossIncome: number,
+    netIncome: number,
+    location: string,
+    currency: CurrencyCode,
+    expenses: Expense[],
+    categoryTotals: CategoryTotal[],
+    totalExpenses: number,
+    remainingBalance: number,
+    plan: PlanSummary | null,
+    signal?: AbortSignal
+): Promise<BudgetAnalysis> {
+    const { request, benchmark } = buildBudgetAnalysisPrompt(grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan);
+
+    try {
+        const text = await getAiProvider().generate({ ...request, signal });
+        const { benchmarkComment, ...analysis } = validateBudgetAnalysis(text, totalExpenses);
+        return { ...analysis, benchmark: { ...benchmark, comment: benchmarkComment } };
+    } catch (error) {
+        handleBudgetAnalysisError(error, signal);
+    }
+}
+
+/** Yields the raw response text as it arrives and returns the validated analysis once it is complete. */
+export async function* streamBudgetAnalysis(
+    grossIncome: number,
+    netIncome: number,
+    location: string,
+    currency: CurrencyCode,
+    expenses: Expense[],
+    categoryTotals: CategoryTotal[],
+    totalExpenses: number,
+    remainingBalance: number,
+    plan: PlanSummary | null,
+    signal?: AbortSignal
+): AsyncGenerator<string, BudgetAnalysis> {
+    const { request, benchmark } = buildBudgetAnalysisPrompt(grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan);
+
+    try {
+        let text = '';
+        for await (const chunk of getAiProvider().generateStream({ ...request, signal })) {
+            text += chunk;
+            yield chunk;
+        }
+        const { benchmarkComment, ...analysis } = validateBudgetAnalysis(text, totalExpenses);
+        return { ...analysis, benchmark: { ...benchmark, comment: benchmarkComment } };
+    } catch (error) {
+        handleBudgetAnalysisError(error, signal);
+    }
+}
+
+
+export async function categorizeMerchants(merchants: MerchantToCategorize[], signal?: AbortSignal): Promise<Record<string, ExpenseCategory>> {
+    const merchantList = merchants
+        .map(m => `- key "${m.key}": ${m.description}`)
+        .join('\n');
+
+    const prompt = `You are categorizing bank statement transactions for a household budget. For each merchant below, choose the single best category from this list: ${EXPENSE_CATEGORIES.join(', ')}.
+
+Use "other" only when none of the categories fit. Return every merchant key exactly as given.
+
+Merchants:
+${merchantList}`;
+
+    try {
+        const text = await getAiProvider().generate({
+            task: 'categorizeMerchants',
+            prompt,
+            responseSchema: CATEGORIZE_SCHEMA,
+            input: { merchants },
+            signal,
+        });
+
+        return validateMerchantCategories(text, merchants.map(m => m.key));
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Error calling AI provider for transaction categorization:", error);
+        if (error instanceof AiProviderError || error instanceof AiResponseError) throw error;
+        throw new Error("Failed to categorize transactions with AI.");
+    }
+}
+
+
+export async function compareScenarios(scenarios: ScenarioSummary[], signal?: AbortSignal): Promise<ScenarioComparison> {
+    const [baseline, ...alternatives] = scenarios;
+    const signed = (amount: number, currency: CurrencyCode) => `${amount >= 0 ? '+' : ''}${money(amount, currency)}`;
+    const describe = (s: ScenarioSummary) =>
+        `- **${s.name}:** ${s.location}, ${s.filingStatus}. Gross ${money(s.grossIncome, s.currency)}, taxes ${money(s.totalTax, s.currency)}, net ${money(s.netIncome, s.currency)}, expenses ${money(s.totalExpenses, s.currency)}, remaining ${money(s.remainingBalance, s.currency)}. Health score ${s.healthScore}/100. Analysis: ${s.analysisSummary}`;
+    // Amounts in different currencies aren't converted, so those scenarios get no differences.
+    const deltas = alternatives
+        .map(s => s.currency === baseline.currency
+            ? `- **${s.name}** vs baseline: net income ${signed(s.netIncome - baseline.netIncome, s.currency)}, taxes ${signed(s.totalTax - baseline.totalTax, s.currency)}, remaining balance ${signed(s.remainingBalance - baseline.remainingBalance, s.currency)}`
+            : `- **${s.name}** vs baseline: in ${s.currency} rather than ${baseline.currency}, so not directly comparable`)
+        .join('\n');
+
+    const prompt = `
+You are a friendly financial assistant helping a user compare what-if versions of their monthly budget, such as moving to another city, changing filing status or a change in rent.
+
+**Baseline:**
+${describe(baseline)}
+
+**Scenarios:**
+${alternatives.map(describe).join('\n')}
+
+**Monthly differences from the baseline:**
+${deltas}
+
+**Your Task:**
+Respond with a JSON object. In "summary", explain in 2-3 sentences which scenario leaves the user best off and why. In "tradeoffs", give one sentence per scenario naming it and its main trade-off against the baseline, including non-financial factors the figures hint at (e.g. cost of living or state taxes after a move). Quote the differences above rather than recomputing them, and don't convert between currencies. Write without markdown, speaking directly to the user.
+`;
+
+    try {
+        const text = await getAiProvider().generate({
+            task: 'scenarioComparison',
+            prompt,
+            responseSchema: SCENARIO_COMPARISON_SCHEMA,
+            input: { scenarios },
+            signal,
+        });
+
+        return validateScenarioComparison(text);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Error calling AI provider for scenario comparison:", error);
+        if (error instanceof AiProviderError || error instanceof AiResponseError) throw error;
+        throw new Error("Failed to compare scenarios with AI.");
+    }
+}
+
+/**
+ * Answers a follow-up question about the budget. The budget goes in the system instruction on
+ * every turn, so answers reflect the current figures even after the user edits them mid-conversation.
+ */
+export async function chatAboutBudget(
+    context: BudgetChatContext,
+    history: ChatTurn[],
+    message: string,
+    signal?: AbortSignal
+): Promise<BudgetChatReply> {
+    const expenseList = context.expenses
+        .map((e, index) => `${index + 1}. ${e.name} (${CATEGORY_LABELS[e.category]}): ${money(parseFloat(e.amount), e.currency)} ${FREQUENCY_LABELS[e.frequency].toLowerCase()}, about ${money(toMonthlyAmount(e), e.currency)}/month`)
+        .join('\n');
+    const taxes = context.taxes
+        ? `${context.taxes.lines.map(line => `${line.label} ${line.covered ? money(line.amount, context.currency) : 'not estimated'}`).join(', ')}; pre-tax deductions ${money(context.taxes.preTaxDeductions, context.currency)}`
+        : 'no breakdown available';
+
+    const systemInstruction = `
+You are a friendly financial assistant answering follow-up questions about the user's monthly budget. Base every answer on the figures below, which are current as of this message, and quote them rather than inventing new ones. Keep answers short, practical and free of markdown.
+
+**Budget (monthly, in ${context.currency}):**
+- Location: ${context.location}, ${context.country} (${context.filingStatus})
+- Gross income: ${money(context.grossIncome, context.currency)}
+- Taxes: ${money(context.totalTax, context.currency)} (${taxes})
+- Net income: ${money(context.netIncome, context.currency)}
+- Total expenses: ${money(context.totalExpenses, context.currency)}
+- Remaining balance: ${money(context.remainingBalance, context.currency)}
+${context.analysisSummary ? `- Last analysis: ${context.analysisSummary}\n` : ''}
+**Expenses (numbered):**
+${expenseList || 'None listed.'}
+
+Respond with a JSON object. Put your answer in "reply". When the answer implies concrete changes to the expense list, such as cutting an amount or removing a subscription, list them in "edits" using the expense numbers above (0 when adding a new expense), with the full new name, amount in ${context.currency}, category and frequency. Otherwise leave "edits" empty.
+`;
+
+    try {
+        const text = await getAiProvider().generate({
+            task: 'budgetChat',
+            prompt: message,
+            systemInstruction,
+            history,
+            responseSchema: BUDGET_CHAT_SCHEMA,
+            input: { message, expenses: context.expenses, turns: history.length },
+            signal,
+        });
+
+        return validateBudgetChatReply(text, context.expenses, context.currency);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Error calling AI provider for budget chat:", error);
+        if (error instanceof AiProviderError || error instanceof AiResponseError) throw error;
+        throw new Error("Failed to answer your question with AI.");
+    }
+}
@@ -0,0 +1,228 @@
+import { existsSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AiBudgetError, AiProviderError, getAiProvider } from './aiProvider';
+import { categorizeMerchants, chatAboutBudget, compareScenarios, getBudgetAnalysis, getEstimatedNetIncome, streamBudgetAnalysis } from './aiService';
+import { createRateLimiter } from './rateLimit';
+import { getBudgetAnalysisCacheKey, getResponseCaches, getTaxEstimateCacheKey } from './responseCache';
+import { logUsage } from './usageLog';
+import { getUsageMeter } from './usageMeter';
+import type { BudgetAnalysis, BudgetAnalysisStreamEvent } from '../types';
+import { parseBudgetAnalysisRequest, parseBudgetChatRequest, parseCategorizeMerchantsRequest, parseScenarioComparisonRequest, parseTaxEstimateRequest, ValidationError } from './validation';
+
+// Earlier files win because loadEnvFile never overrides variables that are already set.
+for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.API_PORT) || 3001;
+const MAX_BODY_BYTES = 64 * 1024;
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+const rateLimiter = createRateLimiter({
+    limit: Number(process.env.RATE_LIMIT_PER_MINUTE) || 20,
+    windowMs: 60_000,
+});
+
+type Handler = (body: unknown, signal: AbortSignal) => Promise<unknown>;
+
+/** Streaming handlers send newline-delimited JSON events instead of a single response body. */
+type StreamHandler = (body: unknown, signal: AbortSignal) => AsyncGenerator<BudgetAnalysisStreamEvent>;
+
+const routes: Record<string, Handler> = {
+    // Tax estimates are always served from the cache when possible, so the same inputs get the same figures.
+    '/api/tax-estimate': async (body, signal) => {
+        const request = parseTaxEstimateRequest(body);
+        const { grossMonthlyIncome, country, location, filingStatus, incomes, deductions } = request;
+        const { taxEstimates } = getResponseCaches();
+        const key = getTaxEstimateCacheKey(request, getAiProvider().model);
+        const cached = taxEstimates.get(key);
+        if (cached) return { ...cached.value, cachedAt: cached.cachedAt };
+
+        const estimate = await getEstimatedNetIncome(grossMonthlyIncome, country, location, filingStatus, incomes, deductions, signal);
+        taxEstimates.set(key, estimate);
+        return estimate;
+    },
+    '/api/budget-analysis': async (body, signal) => {
+        const request = parseBudgetAnalysisRequest(body);
+        const { grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan, reuseCachedAnalysis } = request;
+        const { analyses } = getResponseCaches();
+        const key = getBudgetAnalysisCacheKey(request, getAiProvider().model);
+        const cached = reuseCachedAnalysis ? analyses.get(key) : null;
+        if (cached) return { analysis: { ...cached.value, cachedAt: cached.cachedAt } };
+
+        const analysis = await getBudgetAnalysis(grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan, signal);
+        analyses.set(key, analysis);
+        return { analysis };
+    },
+    '/api/categorize': async (body, signal) => {
+        const { merchants } = parseCategorizeMerchantsRequest(body);
+        return { categories: await categorizeMerchants(merchants, signal) };
+    },
+    '/api/scenario-comparison': async (body, signal) => {
+        const { scenarios } = parseScenarioComparisonRequest(body);
+        return { comparison: await compareScenarios(scenarios, signal) };
+    },
+    '/api/chat': async (body, signal) => {
+        const { context, history, message } = parseBudgetChatRequest(body);
+        return { reply: await chatAboutBudget(context, history, message, signal) };
+    },
+};
+
+const streamRoutes: Record<string, StreamHandler> = {
+    // Analyses are always cached, but only reused when the client asks for it.
+    '/api/budget-analysis/stream': async function* (body, signal) {
+        const request = parseBudgetAnalysisRequest(body);
+        const { grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan, reuseCachedAnalysis } = request;
+        const { analyses } = getResponseCaches();
+        const key = getBudgetAnalysisCacheKey(request, getAiProvider().model);
+        const cached = reuseCachedAnalysis ? analyses.get(key) : null;
+        if (cached) {
+            yield { type: 'result', analysis: { ...cached.value, cachedAt: cached.cachedAt } };
+            return;
+        }
+
+        const stream = streamBudgetAnalysis(grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan, signal);
+        // Without strictNullChecks the iterator result doesn't narrow on `done`, hence the casts.
+        let step = await stream.next();
+        while (!step.done) {
+            yield { type: 'chunk', text: step.value as string };
+            step = await stream.next();
+        }
+        const analysis = step.value as BudgetAnalysis;
+        analyses.set(key, analysis);
+        yield { type: 'result', analysis };
+    },
+};
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+function getClientId(req: IncomingMessage): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (TRUST_PROXY && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new HttpError(413, "Request body is too large.");
+        }
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, "Request body must be valid JSON.");
+    }
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(payload));
+}
+
+/**
+ * Waits for the first event before sending headers, so failures that happen before any output
+ * (invalid input, an unavailable provider) still get a proper HTTP status.
+ */
+async function sendStream(res: ServerResponse, events: AsyncGenerator<BudgetAnalysisStreamEvent>) {
+    let step = await events.next();
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    while (!step.done) {
+        res.write(JSON.stringify(step.value) + '\n');
+        step = await events.next();
+    }
+    res.end();
+}
+
+function toErrorResponse(error: unknown): { status: number; message: string } {
+    if (error instanceof HttpError) return { status: error.status, message: error.message };
+    if (error instanceof ValidationError) return { status: 400, message: error.message };
+    // 402 rather than 503, so clients don't retry a call that can't succeed until the budget resets.
+    if (error instanceof AiBudgetError) return { status: 402, message: error.message };
+    if (error instanceof AiProviderError) return { status: 503, message: error.message };
+    return { status: 502, message: error instanceof Error ? error.message : "The AI request failed." };
+}
+
+const server = createServer(async (req, res) => {
+    const endpoint = (req.url ?? '').split('?')[0];
+
+    if (req.method === 'GET' && endpoint === '/api/health') {
+        const { name, model } = getAiProvider();
+        sendJson(res, 200, { status: 'ok', provider: name, model });
+        return;
+    }
+
+    if (req.method === 'GET' && endpoint === '/api/usage') {
+        sendJson(res, 200, getUsageMeter().getSummary(getAiProvider().model));
+        return;
+    }
+
+    const handler = routes[endpoint];
+    const streamHandler = streamRoutes[endpoint];
+    if (!handler && !streamHandler) {
+        sendJson(res, 404, { error: "Not found." });
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendJson(res, 405, { error: "Method not allowed." }, { Allow: 'POST' });
+        return;
+    }
+
+    const clientId = getClientId(req);
+    const started = Date.now();
+    const { name: provider, model } = getAiProvider();
+
+    const limit = rateLimiter.check(clientId, started);
+    if (!limit.allowed) {
+        const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+        sendJson(res, 429, { error: `Too many requests. Try again in ${retryAfter} seconds.` }, { 'Retry-After': String(retryAfter) });
+        logUsage({ endpoint, clientId, status: 429, durationMs: 0, provider, model });
+        return;
+    }
+
+    // Stop the upstream AI call if the browser goes away, e.g. because the user cancelled.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+        const body = await readJsonBody(req);
+        if (streamHandler) {
+            await sendStream(res, streamHandler(body, controller.signal));
+        } else {
+            sendJson(res, 200, await handler(body, controller.signal));
+        }
+        logUsage({ endpoint, clientId, status: 200, durationMs: Date.now() - started, provider, model });
+    } catch (error) {
+        // 499 is the conventional status for a request the client closed before it was answered.
+        const { status, message } = controller.signal.aborted
+            ? { status: 499, message: "The client cancelled the request." }
+            : toErrorResponse(error);
+        if (controller.signal.aborted) {
+            res.end();
+        } else if (res.headersSent) {
+            res.end(JSON.stringify({ type: 'error', error: message } satisfies BudgetAnalysisStreamEvent) + '\n');
+        } else {
+            sendJson(res, status, { error: message });
+        }
+        logUsage({ endpoint, clientId, status, durationMs: Date.now() - started, provider, model, error: message });
+    }
+});
+
+server.listen(PORT, () => {
+    const { name, model } = getAiProvider();
+    console.log(`API server listening on http://localhost:${PORT} (provider: ${name}, model: ${model})`);
+});
@@ -0,0 +1,33 @@
+import { mkdirSync, readFileSync } from 'node:fs';
+import { rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads and parses `file`. The contents are unchecked, so callers narrow them before use. */
+export function readJsonFile(file: string): unknown {
+    return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+/**
+ * Returns a function that saves a snapshot to `file`. Each snapshot is written to a temporary file
+ * and renamed over the old one, so a crash mid-write never leaves a truncated file behind, and
+ * writes are chained so an older snapshot never lands after a newer one. `label` names the data in
+ * error messages.
+ */
+export function createJsonFileWriter(file: string, label: string): (data: unknown) => void {
+    const tempFile = `${file}.tmp`;
+    let pendingWrite = Promise.resolve();
+
+    return data => {
+        const contents = JSON.stringify(data);
+        pendingWrite = pendingWrite
+            .then(async () => {
+                mkdirSync(dirname(file), { recursive: true });
+                await writeFile(tempFile, contents);
+                await rename(tempFile, file);
+            })
+            .catch(error => console.error(`Failed to write ${label}:`, error));
+    };
+}
@@ -0,0 +1,90 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import type { GenerateContentConfig, GenerateContentParameters, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { AiProviderError } from '../aiProvider';
+import type { AiConfig, AiProvider, AiRequest } from '../aiProvider';
+
+/** Carries the HTTP status of Gemini API errors so transient ones can be retried. */
+function toProviderError(error: unknown): unknown {
+    if (error instanceof ApiError) {
+        return new AiProviderError(`Gemini responded with ${error.status}: ${error.message}`, error.status);
+    }
+    return error;
+}
+
+function reportUsage(request: AiRequest, metadata: GenerateContentResponseUsageMetadata | undefined) {
+    if (!metadata) return;
+    request.onUsage?.({
+        inputTokens: metadata.promptTokenCount ?? 0,
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    });
+}
+
+export function createGeminiProvider(config: AiConfig): AiProvider {
+    let client: GoogleGenAI | null = null;
+
+    const getClient = () => {
+        if (!config.apiKey) {
+            throw new AiProviderError("Gemini API key is not configured. Set GEMINI_API_KEY or choose another AI provider.");
+        }
+        client ??= new GoogleGenAI({ apiKey: config.apiKey });
+        return client;
+    };
+
+    const toConfig = (request: AiRequest): GenerateContentConfig => ({
+        abortSignal: request.signal,
+        systemInstruction: request.systemInstruction,
+        ...(request.responseSchema ? { responseMimeType: "application/json", responseJsonSchema: request.responseSchema } : {}),
+    });
+
+    const toParameters = (request: AiRequest): GenerateContentParameters => ({
+        model: config.model,
+        contents: request.prompt,
+        config: toConfig(request),
+    });
+
+    /** Conversations go through the chat API so earlier turns are sent as user and model history. */
+    const startChat = (ai: GoogleGenAI, request: AiRequest) => ai.chats.create({
+        model: config.model,
+        config: toConfig(request),
+        history: request.history.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.text }] })),
+    });
+
+    return {
+        name: 'gemini',
+        model: config.model,
+        async generate(request) {
+            const ai = getClient();
+            let text: string | undefined;
+            try {
+                const response = request.history
+                    ? await startChat(ai, request).sendMessage({ message: request.prompt })
+                    : await ai.models.generateContent(toParameters(request));
+                text = response.text;
+                reportUsage(request, response.usageMetadata);
+            } catch (error) {
+                throw toProviderError(error);
+            }
+            if (!text) {
+                throw new AiProviderError("Gemini returned an empty response.");
+            }
+            return text;
+        },
+        async *generateStream(request) {
+            const ai = getClient();
+            try {
+                const stream = request.history
+                    ? await startChat(ai, request).sendMessageStream({ message: request.prompt })
+                    : await ai.models.generateContentStream(toParameters(request));
+                // Every chunk carries the running totals, so the last one has the counts for the whole call.
+                let usage: GenerateContentResponseUsageMetadata | undefined;
+                for await (const chunk of stream) {
+                    usage = chunk.usageMetadata ?? usage;
+                    if (chunk.text) yield chunk.text;
+                }
+                reportUsage(request, usage);
+            } catch (error) {
+                throw toProviderError(error);
+            }
+        },
+    };
+}
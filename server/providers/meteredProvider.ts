@@ -0,0 +1,34 @@
+import { AiBudgetError } from '../aiProvider';
+import type { AiProvider, AiRequest } from '../aiProvider';
+import type { UsageMeter } from '../usageMeter';
+
+/**
+ * Records the token usage of every call with the meter, and refuses new calls once the monthly
+ * budget has been reached. Calls already running when the budget runs out are allowed to finish.
+ */
+export function createMeteredProvider(provider: AiProvider, meter: UsageMeter): AiProvider {
+    const metered = (request: AiRequest): AiRequest => {
+        if (meter.isOverBudget()) {
+            const { budgetUsd } = meter.getSummary(provider.model);
+            throw new AiBudgetError(`This month's AI budget of $${budgetUsd.toFixed(2)} has been used up. AI features are paused until next month or until the budget is raised.`);
+        }
+        return {
+            ...request,
+            onUsage: usage => {
+                meter.record(request.task, provider.model, usage);
+                request.onUsage?.(usage);
+            },
+        };
+    };
+
+    return {
+        name: provider.name,
+        model: provider.model,
+        generate(request) {
+            return provider.generate(metered(request));
+        },
+        async *generateStream(request) {
+            yield* provider.generateStream(metered(request));
+        },
+    };
+}
@@ -0,0 +1,116 @@
+import type { AiConfig, AiProvider, AiRequest, AiTask } from '../aiProvider';
+import { sleep } from '../../services/retry';
+import type { CategoryTotal, Expense, ScenarioSummary } from '../../types';
+
+type Fixture = (input: Record<string, unknown>) => unknown;
+
+const MOCK_EFFECTIVE_TAX_RATE = 0.25;
+
+/** Streams are split into chunks of this size, with a short pause between them to mimic a real model. */
+const MOCK_STREAM_CHUNK_SIZE = 24;
+const MOCK_STREAM_DELAY_MS = 30;
+
+/** Rough characters per token, used to report plausible token counts. */
+const MOCK_CHARS_PER_TOKEN = 4;
+
+/** Deterministic responses for running the app without network access. */
+export const MOCK_FIXTURES: Record<AiTask, Fixture> = {
+    taxEstimate: (input) => {
+        const gross = Number(input.grossMonthlyIncome) || 0;
+        const deductions = (Array.isArray(input.deductions) ? input.deductions : []).reduce((sum, d) => sum + (Number(d?.monthlyAmount) || 0), 0);
+        const totalTax = Math.round((gross - deductions) * MOCK_EFFECTIVE_TAX_RATE * 100) / 100;
+        return {
+            estimatedNetIncome: Math.round((gross - deductions - totalTax) * 100) / 100,
+            estimatedTotalTax: totalTax,
+            disclaimer: "This is a mock estimate for testing purposes only and not financial advice.",
+        };
+    },
+    budgetAnalysis: (input) => {
+        const netIncome = Number(input.netIncome) || 0;
+        const remaining = Number(input.remainingBalance) || 0;
+        const totalExpenses = Number(input.totalExpenses) || 0;
+        const categoryTotals = (Array.isArray(input.categoryTotals) ? input.categoryTotals : []) as CategoryTotal[];
+        const savingsRate = netIncome > 0 ? remaining / netIncome : 0;
+        const largest = categoryTotals[0];
+
+        return {
+            healthScore: Math.max(0, Math.min(100, Math.round(50 + savingsRate * 200))),
+            summary: remaining >= 0
+                ? "This is a mock analysis. Your income covers your expenses with room to spare."
+                : "This is a mock analysis. Your expenses are higher than your income right now.",
+            benchmarkComment: "This is a mock comparison with the 50/30/20 benchmark.",
+            flags: categoryTotals
+                .filter(c => netIncome > 0 && c.monthlyTotal / netIncome > 0.3)
+                .map(c => ({
+                    subject: c.category,
+                    severity: 'warning',
+                    message: `${c.category} is ${Math.round(c.monthlyTotal / netIncome * 100)}% of net income.`,
+                })),
+            recommendations: remaining >= 0
+                ? [{ title: "Save the surplus", detail: "Move part of your remaining balance into savings each month.", estimatedMonthlySavings: 0 }]
+                : [{
+                    title: `Trim ${largest?.category ?? 'spending'}`,
+                    detail: "Review your largest category for costs you can reduce.",
+                    estimatedMonthlySavings: Math.min(totalExpenses, Math.round(Math.abs(remaining))),
+                }],
+        };
+    },
+    scenarioComparison: (input) => {
+        const scenarios = (Array.isArray(input.scenarios) ? input.scenarios : []) as ScenarioSummary[];
+        const best = [...scenarios].sort((a, b) => b.remainingBalance - a.remainingBalance)[0];
+        return {
+            summary: `This is a mock comparison. ${best?.name ?? 'The baseline'} leaves the most money at the end of the month.`,
+            tradeoffs: scenarios.slice(1).map(s => `${s.name} changes your remaining balance by ${(s.remainingBalance - scenarios[0].remainingBalance).toFixed(2)} ${s.currency} per month.`),
+        };
+    },
+    budgetChat: (input) => {
+        const expenses = (Array.isArray(input.expenses) ? input.expenses : []) as Expense[];
+        const largest = [...expenses].sort((a, b) => parseFloat(b.amount) - parseFloat(a.amount))[0];
+        return {
+            reply: `This is a mock reply to "${String(input.message ?? '')}".${largest ? ` Trimming ${largest.name} by 10% would free up some room.` : ''}`,
+            edits: largest
+                ? [{
+                    action: 'update',
+                    expenseNumber: expenses.indexOf(largest) + 1,
+                    name: largest.name,
+                    amount: Math.round(parseFloat(largest.amount) * 90) / 100,
+                    category: largest.category,
+                    frequency: largest.frequency,
+                    reason: "A 10% cut to your largest expense.",
+                }]
+                : [],
+        };
+    },
+    categorizeMerchants: (input) => {
+        const merchants = Array.isArray(input.merchants) ? input.merchants : [];
+        return { categories: merchants.map(merchant => ({ key: merchant.key, category: 'discretionary' })) };
+    },
+};
+
+export function createMockProvider(config: AiConfig, fixtures: Record<AiTask, Fixture> = MOCK_FIXTURES): AiProvider {
+    const respond = (request: AiRequest) => {
+        const result = fixtures[request.task](request.input);
+        const text = typeof result === 'string' ? result : JSON.stringify(result);
+        const promptLength = [request.systemInstruction ?? '', ...(request.history ?? []).map(turn => turn.text), request.prompt].join('').length;
+        request.onUsage?.({
+            inputTokens: Math.ceil(promptLength / MOCK_CHARS_PER_TOKEN),
+            outputTokens: Math.ceil(text.length / MOCK_CHARS_PER_TOKEN),
+        });
+        return text;
+    };
+
+    return {
+        name: 'mock',
+        model: config.model,
+        async generate(request) {
+            return respond(request);
+        },
+        async *generateStream(request) {
+            const text = respond(request);
+            for (let offset = 0; offset < text.length; offset += MOCK_STREAM_CHUNK_SIZE) {
+                await sleep(MOCK_STREAM_DELAY_MS, request.signal);
+                yield text.slice(offset, offset + MOCK_STREAM_CHUNK_SIZE);
+            }
+        },
+    };
+}
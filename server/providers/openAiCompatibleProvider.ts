@@ -0,0 +1,94 @@
+import { AiProviderError } from '../aiProvider';
+import type { AiConfig, AiProvider, AiRequest } from '../aiProvider';
+
+/** The `usage` object of a response or of the final stream chunk. */
+interface CompletionUsage {
+    prompt_tokens: number;
+    completion_tokens?: number;
+}
+
+function isCompletionUsage(value: unknown): value is CompletionUsage {
+    return typeof value === 'object' && value !== null && typeof (value as CompletionUsage).prompt_tokens === 'number';
+}
+
+function reportUsage(request: AiRequest, usage: unknown) {
+    if (!isCompletionUsage(usage)) return;
+    const outputTokens = typeof usage.completion_tokens === 'number' ? usage.completion_tokens : 0;
+    request.onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens });
+}
+
+/** Talks to any endpoint implementing the OpenAI chat completions API, such as a local Ollama server. */
+export function createOpenAiCompatibleProvider(config: AiConfig): AiProvider {
+    const baseUrl = (config.baseUrl ?? '').replace(/\/+$/, '');
+
+    const post = async (request: AiRequest, stream: boolean) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) {
+            headers.Authorization = `Bearer ${config.apiKey}`;
+        }
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal: request.signal,
+            body: JSON.stringify({
+                model: config.model,
+                messages: [
+                    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+                    ...(request.history ?? []).map(turn => ({ role: turn.role, content: turn.text })),
+                    { role: 'user', content: request.prompt },
+                ],
+                stream,
+                // Asks for a final chunk with the token counts; endpoints that don't know the option ignore it.
+                stream_options: stream ? { include_usage: true } : undefined,
+                response_format: request.responseSchema
+                    ? { type: 'json_schema', json_schema: { name: request.task, schema: request.responseSchema } }
+                    : undefined,
+            }),
+        });
+        if (!response.ok) {
+            throw new AiProviderError(`AI endpoint at ${baseUrl} responded with ${response.status} ${response.statusText}.`, response.status);
+        }
+        return response;
+    };
+
+    return {
+        name: 'openai',
+        model: config.model,
+        async generate(request) {
+            const data = await (await post(request, false)).json();
+            const content = data?.choices?.[0]?.message?.content;
+            if (typeof content !== 'string' || content === '') {
+                throw new AiProviderError("AI endpoint returned an empty response.");
+            }
+            reportUsage(request, data.usage);
+            return content;
+        },
+        async *generateStream(request) {
+            const response = await post(request, true);
+            if (!response.body) {
+                throw new AiProviderError("AI endpoint returned an empty response.");
+            }
+
+            // The stream is server-sent events: one "data: {...}" line per delta, ending with "data: [DONE]".
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.trim().replace(/^data:\s*/, '');
+                    if (!line.startsWith('data:') || data === '[DONE]') continue;
+                    const event = JSON.parse(data);
+                    reportUsage(request, event?.usage);
+                    const content = event?.choices?.[0]?.delta?.content;
+                    if (typeof content === 'string' && content !== '') yield content;
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,47 @@
+import { AiProviderError } from '../aiProvider';
+import type { AiProvider } from '../aiProvider';
+import { DEFAULT_RETRY_ATTEMPTS, getBackoffDelay, isTransientStatus, sleep, withRetry } from '../../services/retry';
+
+function isTransientProviderError(error: unknown): boolean {
+    return error instanceof AiProviderError && error.status !== undefined && isTransientStatus(error.status);
+}
+
+function logRetry(error: unknown, attempt: number, delayMs: number) {
+    console.warn(`AI provider call failed (attempt ${attempt}), retrying in ${Math.round(delayMs)}ms:`, error instanceof Error ? error.message : error);
+}
+
+/**
+ * Retries rate-limited (429) and server-side (5xx) failures with exponential backoff. A stream is
+ * only retried if it fails before yielding anything, so callers never see duplicated text.
+ */
+export function createRetryingProvider(provider: AiProvider, attempts: number = DEFAULT_RETRY_ATTEMPTS): AiProvider {
+    return {
+        name: provider.name,
+        model: provider.model,
+        generate(request) {
+            return withRetry(() => provider.generate(request), {
+                attempts,
+                signal: request.signal,
+                shouldRetry: isTransientProviderError,
+                onRetry: logRetry,
+            });
+        },
+        async *generateStream(request) {
+            for (let attempt = 1; ; attempt++) {
+                let started = false;
+                try {
+                    for await (const chunk of provider.generateStream(request)) {
+                        started = true;
+                        yield chunk;
+                    }
+                    return;
+                } catch (error) {
+                    if (started || attempt >= attempts || request.signal?.aborted || !isTransientProviderError(error)) throw error;
+                    const delayMs = getBackoffDelay(attempt);
+                    logRetry(error, attempt, delayMs);
+                    await sleep(delayMs, request.signal);
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,38 @@
+export interface RateLimitOptions {
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    retryAfterMs: number;
+}
+
+/** Fixed-window limiter keyed by client id. */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions) {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+
+    const prune = (now: number) => {
+        for (const [clientId, window] of windows) {
+            if (window.resetAt <= now) windows.delete(clientId);
+        }
+    };
+
+    return {
+        check(clientId: string, now = Date.now()): RateLimitResult {
+            if (windows.size > 1000) prune(now);
+
+            let window = windows.get(clientId);
+            if (!window || window.resetAt <= now) {
+                window = { count: 0, resetAt: now + windowMs };
+                windows.set(clientId, window);
+            }
+            if (window.count >= limit) {
+                return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+            }
+            window.count++;
+            return { allowed: true, remaining: limit - window.count, retryAfterMs: 0 };
+        },
+    };
+}
@@ -0,0 +1,141 @@
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { createJsonFileWriter, isJsonObject, readJsonFile } from './jsonFile';
+import type { BudgetAnalysis, BudgetAnalysisRequest, TaxEstimateRequest, TaxEstimateResult } from '../types';
+
+/** Bump when a prompt or response format changes, so answers to the old prompt are no longer served. */
+const CACHE_VERSION = 1;
+
+const DEFAULT_TTL_HOURS = 168;
+const DEFAULT_MAX_ENTRIES = 500;
+
+export interface ResponseCacheOptions {
+    /** JSON file the entries are kept in across restarts; in memory only when unset. */
+    file?: string;
+    /** 0 turns the cache off. */
+    ttlMs: number;
+    maxEntries?: number;
+}
+
+interface CacheEntry<T> {
+    value: T;
+    createdAt: number;
+}
+
+/** A key-value cache whose entries expire after `ttlMs`. The oldest entries are dropped beyond `maxEntries`. */
+export function createResponseCache<T>({ file, ttlMs, maxEntries = DEFAULT_MAX_ENTRIES }: ResponseCacheOptions) {
+    // Maps keep insertion order, so the first entries are always the oldest.
+    const entries = new Map<string, CacheEntry<T>>();
+    const write = file ? createJsonFileWriter(file, 'the AI response cache') : null;
+
+    if (file && existsSync(file) && ttlMs > 0) {
+        try {
+            const now = Date.now();
+            const stored = readJsonFile(file);
+            // Values were validated before they were cached; only the entries' own shape is checked here.
+            for (const item of Array.isArray(stored) ? stored : []) {
+                if (!Array.isArray(item) || typeof item[0] !== 'string' || !isJsonObject(item[1])) continue;
+                const { value, createdAt } = item[1];
+                if (typeof createdAt === 'number' && now - createdAt < ttlMs && value !== undefined) {
+                    entries.set(item[0], { value: value as T, createdAt });
+                }
+            }
+        } catch (error) {
+            console.error(`Failed to read the AI response cache from ${file}, starting empty:`, error);
+        }
+    }
+
+    const save = () => write?.([...entries]);
+
+    return {
+        /** Returns the value and when it was stored, or null when it is missing or expired. */
+        get(key: string, now = Date.now()): { value: T; cachedAt: string } | null {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            if (now - entry.createdAt >= ttlMs) {
+                entries.delete(key);
+                save();
+                return null;
+            }
+            return { value: entry.value, cachedAt: new Date(entry.createdAt).toISOString() };
+        },
+        set(key: string, value: T, now = Date.now()): void {
+            if (ttlMs <= 0) return;
+            entries.delete(key);
+            entries.set(key, { value, createdAt: now });
+            for (const oldest of entries.keys()) {
+                if (entries.size <= maxEntries) break;
+                entries.delete(oldest);
+            }
+            save();
+        },
+    };
+}
+
+export type ResponseCache<T> = ReturnType<typeof createResponseCache<T>>;
+
+function toCacheKey(namespace: string, parts: unknown): string {
+    const hash = createHash('sha256').update(JSON.stringify([CACHE_VERSION, parts])).digest('hex');
+    return `${namespace}:${hash}`;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const byJson = (a: unknown, b: unknown) => JSON.stringify(a).localeCompare(JSON.stringify(b));
+
+/**
+ * Identical tax situations get the same key however they were typed: "Austin,  TX" and "austin, tx"
+ * match, amounts are compared to the cent and the order of the income rows doesn't matter. The year
+ * is part of the key because tax rules change with it, and the model because answers differ by model.
+ */
+export function getTaxEstimateCacheKey(request: TaxEstimateRequest, model: string, now = new Date()): string {
+    return toCacheKey('taxEstimate', {
+        model,
+        year: now.getFullYear(),
+        grossMonthlyIncome: toCents(request.grossMonthlyIncome),
+        country: request.country,
+        location: normalizeText(request.location),
+        filingStatus: request.filingStatus,
+        incomes: request.incomes.map(i => [i.type, toCents(i.monthlyAmount)]).sort(byJson),
+        deductions: request.deductions.map(d => [d.type, toCents(d.monthlyAmount)]).sort(byJson),
+    });
+}
+
+/** Two budgets get the same key when they would produce the same prompt, ignoring expense ids and order. */
+export function getBudgetAnalysisCacheKey(request: BudgetAnalysisRequest, model: string): string {
+    return toCacheKey('budgetAnalysis', {
+        model,
+        grossIncome: toCents(request.grossIncome),
+        netIncome: toCents(request.netIncome),
+        location: normalizeText(request.location),
+        currency: request.currency,
+        expenses: request.expenses
+            .map(e => [normalizeText(e.name), toCents(parseFloat(e.amount) || 0), e.category, e.frequency, e.tag, e.currency])
+            .sort(byJson),
+        totalExpenses: toCents(request.totalExpenses),
+        remainingBalance: toCents(request.remainingBalance),
+        plan: request.plan,
+    });
+}
+
+function readTtlMs(): number {
+    const hours = Number(process.env.AI_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+    return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+let caches: { taxEstimates: ResponseCache<TaxEstimateResult>; analyses: ResponseCache<BudgetAnalysis> } | null = null;
+
+/** The caches of AI answers, stored next to each other under AI_CACHE_DIR. */
+export function getResponseCaches() {
+    if (!caches) {
+        const dir = process.env.AI_CACHE_DIR || '.cache';
+        const ttlMs = readTtlMs();
+        caches = {
+            taxEstimates: createResponseCache<TaxEstimateResult>({ file: `${dir}/tax-estimates.json`, ttlMs }),
+            analyses: createResponseCache<BudgetAnalysis>({ file: `${dir}/budget-analyses.json`, ttlMs }),
+        };
+    }
+    return caches;
+}
@@ -0,0 +1,199 @@
+import { EXPENSE_CATEGORIES, EXPENSE_EDIT_ACTIONS, EXPENSE_FREQUENCIES } from '../types';
+import type { BudgetAnalysis, BudgetChatReply, CurrencyCode, Expense, ExpenseCategory, ExpenseEdit, ExpenseFlag, FlagSeverity, Recommendation, ScenarioComparison, TaxEstimateResult } from '../types';
+
+/** Thrown when a provider's output is malformed or fails a sanity check. */
+export class AiResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AiResponseError';
+    }
+}
+
+const FLAG_SEVERITIES: FlagSeverity[] = ['info', 'warning', 'critical'];
+
+/** Allowed gap between gross income and net income plus tax, to absorb rounding in the model's arithmetic. */
+const TAX_CONSISTENCY_TOLERANCE = 0.02;
+
+function parseJson(text: string, label: string): Record<string, unknown> {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new AiResponseError(`The AI returned a ${label} that is not valid JSON.`);
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new AiResponseError(`The AI returned a ${label} that is not a JSON object.`);
+    }
+    return value as Record<string, unknown>;
+}
+
+function requireNumber(value: unknown, field: string, label: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new AiResponseError(`The AI ${label} is missing a numeric "${field}".`);
+    }
+    return value;
+}
+
+function requireString(value: unknown, field: string, label: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new AiResponseError(`The AI ${label} is missing "${field}".`);
+    }
+    return value.trim();
+}
+
+/** `preTaxDeductions` is the monthly amount the net income should already exclude. */
+export function validateTaxEstimate(text: string, grossMonthlyIncome: number, preTaxDeductions: number = 0): TaxEstimateResult {
+    const label = 'tax estimate';
+    const raw = parseJson(text, label);
+    const netIncome = requireNumber(raw.estimatedNetIncome, 'estimatedNetIncome', label);
+    const totalTax = requireNumber(raw.estimatedTotalTax, 'estimatedTotalTax', label);
+    const disclaimer = requireString(raw.disclaimer, 'disclaimer', label);
+
+    if (totalTax < 0) {
+        throw new AiResponseError("The AI tax estimate has negative taxes.");
+    }
+    if (netIncome < 0) {
+        throw new AiResponseError("The AI tax estimate has a negative net income.");
+    }
+    if (netIncome > grossMonthlyIncome) {
+        throw new AiResponseError("The AI tax estimate has a net income higher than the gross income.");
+    }
+    if (Math.abs(grossMonthlyIncome - preTaxDeductions - netIncome - totalTax) > grossMonthlyIncome * TAX_CONSISTENCY_TOLERANCE) {
+        throw new AiResponseError("The AI tax estimate's net income, taxes and deductions don't add up to the gross income.");
+    }
+    return { netIncome, totalTax, disclaimer };
+}
+
+export type AiBudgetAnalysis = Omit<BudgetAnalysis, 'benchmark'> & { benchmarkComment: string };
+
+function validateFlag(value: unknown, index: number): ExpenseFlag {
+    const label = `analysis flag #${index + 1}`;
+    const raw = (value ?? {}) as Record<string, unknown>;
+    const severity = raw.severity as FlagSeverity;
+    if (!FLAG_SEVERITIES.includes(severity)) {
+        throw new AiResponseError(`The AI ${label} has an unknown severity.`);
+    }
+    return {
+        subject: requireString(raw.subject, 'subject', label),
+        severity,
+        message: requireString(raw.message, 'message', label),
+    };
+}
+
+/**
+ * Savings above the total monthly expenses can't be real, but the rest of the recommendation may still
+ * be useful, so the figure is capped rather than failing an analysis that has already been paid for.
+ */
+function validateRecommendation(value: unknown, index: number, totalExpenses: number): Recommendation {
+    const label = `recommendation #${index + 1}`;
+    const raw = (value ?? {}) as Record<string, unknown>;
+    const estimatedMonthlySavings = requireNumber(raw.estimatedMonthlySavings, 'estimatedMonthlySavings', label);
+    if (estimatedMonthlySavings < 0) {
+        throw new AiResponseError(`The AI ${label} has negative savings.`);
+    }
+    return {
+        title: requireString(raw.title, 'title', label),
+        detail: requireString(raw.detail, 'detail', label),
+        estimatedMonthlySavings: Math.min(estimatedMonthlySavings, totalExpenses),
+    };
+}
+
+export function validateBudgetAnalysis(text: string, totalExpenses: number): AiBudgetAnalysis {
+    const label = 'budget analysis';
+    const raw = parseJson(text, label);
+    const healthScore = requireNumber(raw.healthScore, 'healthScore', label);
+    if (healthScore < 0 || healthScore > 100) {
+        throw new AiResponseError("The AI budget analysis has a health score outside 0-100.");
+    }
+    if (!Array.isArray(raw.flags) || !Array.isArray(raw.recommendations)) {
+        throw new AiResponseError("The AI budget analysis is missing its flags or recommendations.");
+    }
+    return {
+        healthScore: Math.round(healthScore),
+        summary: requireString(raw.summary, 'summary', label),
+        benchmarkComment: requireString(raw.benchmarkComment, 'benchmarkComment', label),
+        flags: raw.flags.map(validateFlag),
+        recommendations: raw.recommendations.map((r, i) => validateRecommendation(r, i, totalExpenses)),
+    };
+}
+
+/** Keeps the categories of the merchants that were asked about. Unknown keys and categories are ignored. */
+export function validateMerchantCategories(text: string, keys: string[]): Record<string, ExpenseCategory> {
+    const raw = parseJson(text, 'categorization');
+    const known = new Set(keys);
+    const categories: Record<string, ExpenseCategory> = {};
+    for (const entry of Array.isArray(raw.categories) ? raw.categories : []) {
+        const { key, category } = (entry ?? {}) as Record<string, unknown>;
+        if (typeof key === 'string' && known.has(key) && EXPENSE_CATEGORIES.includes(category as ExpenseCategory)) {
+            categories[key] = category as ExpenseCategory;
+        }
+    }
+    return categories;
+}
+
+export function validateScenarioComparison(text: string): ScenarioComparison {
+    const label = 'scenario comparison';
+    const raw = parseJson(text, label);
+    if (!Array.isArray(raw.tradeoffs)) {
+        throw new AiResponseError("The AI scenario comparison is missing its trade-offs.");
+    }
+    return {
+        summary: requireString(raw.summary, 'summary', label),
+        tradeoffs: raw.tradeoffs.map((tradeoff, index) => requireString(tradeoff, `tradeoffs[${index}]`, label)),
+    };
+}
+
+/** More than this many proposed edits in one reply are ignored. */
+const MAX_CHAT_EDITS = 5;
+
+/**
+ * Longer replies are cut short. Replies come back as history in later requests, where the server
+ * accepts at most 8000 characters per turn, so this keeps well under that.
+ */
+const MAX_CHAT_REPLY_LENGTH = 4000;
+
+function truncateReply(text: string): string {
+    if (text.length <= MAX_CHAT_REPLY_LENGTH) return text;
+    const cut = text.slice(0, MAX_CHAT_REPLY_LENGTH - 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > MAX_CHAT_REPLY_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Maps an edit from the model's numbered expense list back to an expense id. Edits that can't be
+ * applied, e.g. to an expense number that doesn't exist, are dropped rather than failing the reply.
+ * Amounts are in the budget's currency, which the prompt names.
+ */
+function toExpenseEdit(value: unknown, expenses: Expense[], currency: CurrencyCode): ExpenseEdit | null {
+    const raw = (value ?? {}) as Record<string, unknown>;
+    const action = raw.action as ExpenseEdit['action'];
+    if (!EXPENSE_EDIT_ACTIONS.includes(action)) return null;
+
+    const target = action === 'add' ? null : expenses[Number(raw.expenseNumber) - 1];
+    if (action !== 'add' && !target) return null;
+
+    const amount = typeof raw.amount === 'number' && Number.isFinite(raw.amount) ? raw.amount : NaN;
+    const name = typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name.trim() : target?.name;
+    if (action !== 'remove' && (!name || !(amount >= 0))) return null;
+
+    return {
+        action,
+        expenseId: target?.id ?? null,
+        name: action === 'remove' ? target.name : name,
+        amount: action === 'remove' ? parseFloat(target.amount) : Math.round(amount * 100) / 100,
+        category: EXPENSE_CATEGORIES.includes(raw.category as ExpenseEdit['category']) ? raw.category as ExpenseEdit['category'] : target?.category ?? 'other',
+        frequency: EXPENSE_FREQUENCIES.includes(raw.frequency as ExpenseEdit['frequency']) ? raw.frequency as ExpenseEdit['frequency'] : target?.frequency ?? 'monthly',
+        currency,
+        reason: typeof raw.reason === 'string' ? raw.reason.trim() : '',
+    };
+}
+
+export function validateBudgetChatReply(text: string, expenses: Expense[], currency: CurrencyCode): BudgetChatReply {
+    const label = 'chat reply';
+    const raw = parseJson(text, label);
+    const edits = Array.isArray(raw.edits) ? raw.edits : [];
+    return {
+        text: truncateReply(requireString(raw.reply, 'reply', label)),
+        edits: edits.slice(0, MAX_CHAT_EDITS).map(edit => toExpenseEdit(edit, expenses, currency)).filter(edit => edit !== null),
+    };
+}
@@ -0,0 +1,22 @@
+import { appendFile } from 'node:fs/promises';
+
+export interface UsageEntry {
+    endpoint: string;
+    clientId: string;
+    status: number;
+    durationMs: number;
+    provider?: string;
+    model?: string;
+    error?: string;
+}
+
+/** Writes one JSON line per API call to stdout, and to USAGE_LOG_FILE when it is set. */
+export function logUsage(entry: UsageEntry): void {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+    console.log(line);
+
+    const file = process.env.USAGE_LOG_FILE;
+    if (file) {
+        appendFile(file, line + '\n').catch(error => console.error("Failed to write usage log:", error));
+    }
+}
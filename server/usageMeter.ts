@@ -0,0 +1,179 @@
+import { existsSync } from 'node:fs';
+import type { TokenUsage } from './aiProvider';
+import { createJsonFileWriter, isJsonObject, readJsonFile } from './jsonFile';
+import type { AiCallUsage, AiUsageSummary, AiUsageTotals } from '../types';
+
+export interface ModelPrice {
+    /** USD per million input tokens. */
+    input: number;
+    /** USD per million output tokens, thinking included. */
+    output: number;
+}
+
+/** List prices of the Gemini models; other models need AI_INPUT_PRICE_PER_MILLION and AI_OUTPUT_PRICE_PER_MILLION. */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'mock-fixtures': { input: 0, output: 0 },
+};
+
+const MONTHS_KEPT = 12;
+const RECENT_CALLS_KEPT = 20;
+
+export interface UsageMeterOptions {
+    /** JSON file the totals are kept in across restarts; in memory only when unset. */
+    file?: string;
+    /** Calls are refused once this month's estimated cost reaches it; no cap when unset. */
+    budgetUsd?: number;
+    /** Overrides MODEL_PRICES for every model. */
+    price?: ModelPrice;
+}
+
+interface MonthUsage {
+    totals: AiUsageTotals;
+    byTask: Record<string, AiUsageTotals>;
+}
+
+interface UsageFile {
+    months: Record<string, MonthUsage>;
+    recentCalls: AiCallUsage[];
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+const emptyTotals = (): AiUsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+function addTo(totals: AiUsageTotals, call: AiCallUsage) {
+    totals.calls++;
+    totals.inputTokens += call.inputTokens;
+    totals.outputTokens += call.outputTokens;
+    totals.costUsd += call.costUsd;
+}
+
+const getMonthKey = (date = new Date()) => date.toISOString().slice(0, 7);
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+function readTotals(value: unknown): AiUsageTotals | null {
+    if (!isJsonObject(value)) return null;
+    const { calls, inputTokens, outputTokens, costUsd } = value;
+    if (!isCount(calls) || !isCount(inputTokens) || !isCount(outputTokens) || !isCount(costUsd)) return null;
+    return { calls, inputTokens, outputTokens, costUsd };
+}
+
+function readMonth(value: unknown): MonthUsage | null {
+    if (!isJsonObject(value)) return null;
+    const totals = readTotals(value.totals);
+    if (!totals) return null;
+    const byTask: Record<string, AiUsageTotals> = {};
+    for (const [task, usage] of Object.entries(isJsonObject(value.byTask) ? value.byTask : {})) {
+        const taskTotals = readTotals(usage);
+        if (taskTotals) byTask[task] = taskTotals;
+    }
+    return { totals, byTask };
+}
+
+function readCall(value: unknown): AiCallUsage | null {
+    if (!isJsonObject(value)) return null;
+    const { time, task, model, inputTokens, outputTokens, costUsd } = value;
+    if (typeof time !== 'string' || typeof task !== 'string' || typeof model !== 'string') return null;
+    if (!isCount(inputTokens) || !isCount(outputTokens) || !isCount(costUsd)) return null;
+    return { time, task, model, inputTokens, outputTokens, costUsd };
+}
+
+/** Months or calls that don't have the expected shape are dropped, so one bad record can't break recording. */
+function load(file: string | undefined): UsageFile {
+    const empty: UsageFile = { months: {}, recentCalls: [] };
+    if (!file || !existsSync(file)) return empty;
+    try {
+        const raw = readJsonFile(file);
+        if (!isJsonObject(raw)) return empty;
+        const months: Record<string, MonthUsage> = {};
+        for (const [key, value] of Object.entries(isJsonObject(raw.months) ? raw.months : {})) {
+            const month = /^\d{4}-\d{2}$/.test(key) ? readMonth(value) : null;
+            if (month) months[key] = month;
+        }
+        return {
+            months,
+            recentCalls: (Array.isArray(raw.recentCalls) ? raw.recentCalls : []).map(readCall).filter(call => call !== null),
+        };
+    } catch (error) {
+        console.error(`Failed to read AI usage from ${file}, starting from zero:`, error);
+        return empty;
+    }
+}
+
+/** Tracks token usage and estimated cost per month and task, and enforces the monthly budget. */
+export function createUsageMeter({ file, budgetUsd, price }: UsageMeterOptions = {}) {
+    const data = load(file);
+    const write = file ? createJsonFileWriter(file, 'AI usage') : null;
+    const save = () => write?.(data);
+
+    const getPrice = (model: string): ModelPrice | undefined => price ?? MODEL_PRICES[model];
+
+    const getMonth = (month: string): MonthUsage => {
+        if (!data.months[month]) {
+            data.months[month] = { totals: emptyTotals(), byTask: {} };
+            for (const old of Object.keys(data.months).sort().slice(0, -MONTHS_KEPT)) {
+                delete data.months[old];
+            }
+        }
+        return data.months[month];
+    };
+
+    return {
+        record(task: string, model: string, { inputTokens, outputTokens }: TokenUsage, now = new Date()): AiCallUsage {
+            const modelPrice = getPrice(model);
+            const call: AiCallUsage = {
+                time: now.toISOString(),
+                task,
+                model,
+                inputTokens,
+                outputTokens,
+                costUsd: modelPrice ? (inputTokens * modelPrice.input + outputTokens * modelPrice.output) / 1_000_000 : 0,
+            };
+            const month = getMonth(getMonthKey(now));
+            addTo(month.totals, call);
+            addTo(month.byTask[task] ??= emptyTotals(), call);
+            data.recentCalls = [call, ...data.recentCalls].slice(0, RECENT_CALLS_KEPT);
+            save();
+            return call;
+        },
+        isOverBudget(now = new Date()): boolean {
+            return budgetUsd !== undefined && (data.months[getMonthKey(now)]?.totals.costUsd ?? 0) >= budgetUsd;
+        },
+        getSummary(model: string, now = new Date()): AiUsageSummary {
+            const month = getMonthKey(now);
+            const usage = data.months[month];
+            return {
+                month,
+                totals: usage?.totals ?? emptyTotals(),
+                byTask: usage?.byTask ?? {},
+                budgetUsd: budgetUsd ?? null,
+                pricingKnown: getPrice(model) !== undefined,
+                recentCalls: data.recentCalls,
+            };
+        },
+    };
+}
+
+function readNonNegativeNumber(name: string): number | undefined {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+let meter: UsageMeter | null = null;
+
+export function getUsageMeter(): UsageMeter {
+    if (!meter) {
+        const input = readNonNegativeNumber('AI_INPUT_PRICE_PER_MILLION');
+        const output = readNonNegativeNumber('AI_OUTPUT_PRICE_PER_MILLION');
+        meter = createUsageMeter({
+            file: process.env.AI_USAGE_FILE || '.cache/ai-usage.json',
+            budgetUsd: readNonNegativeNumber('AI_MONTHLY_BUDGET_USD'),
+            price: input !== undefined || output !== undefined ? { input: input ?? 0, output: output ?? 0 } : undefined,
+        });
+    }
+    return meter;
+}
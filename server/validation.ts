@@ -0,0 +1,283 @@
+import { COUNTRIES, CURRENCIES, DEDUCTION_TYPES, EXPENSE_CATEGORIES, EXPENSE_FREQUENCIES, EXPENSE_TAGS, FILING_STATUSES, FILING_STATUSES_BY_COUNTRY, INCOME_TYPES, PAYOFF_STRATEGIES } from '../types';
+import type { BudgetAnalysisRequest, BudgetChatContext, BudgetChatRequest, CategorizeMerchantsRequest, ChatTurn, CategoryTotal, CountryCode, CurrencyCode, DebtProjectionSummary, Expense, FilingStatus, GoalProjectionSummary, PlanSummary, ScenarioComparisonRequest, TaxEstimateDeduction, TaxEstimateIncome, TaxEstimateRequest, TaxLine } from '../types';
+
+const MAX_LOCATION_LENGTH = 200;
+const MAX_EXPENSES = 100;
+const MAX_EXPENSE_NAME_LENGTH = 100;
+const MAX_AMOUNT = 10_000_000;
+const MAX_INCOMES = 20;
+const MAX_DEDUCTIONS = 20;
+const MAX_GOALS = 20;
+const MAX_DEBTS = 20;
+const MAX_MERCHANTS = 200;
+const MAX_MERCHANT_LENGTH = 200;
+const MAX_SCENARIOS = 5;
+const MAX_SCENARIO_NAME_LENGTH = 100;
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_CHAT_HISTORY = 40;
+const MAX_CHAT_MESSAGE_LENGTH = 2000;
+/** Earlier assistant replies can be longer than what the user types. */
+const MAX_CHAT_TURN_LENGTH = 8000;
+const MAX_TAX_LINES = 10;
+const MAX_TAX_LABEL_LENGTH = 100;
+
+export class ValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}
+
+function asObject(value: unknown, label: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ValidationError(`${label} must be a JSON object.`);
+    }
+    return value as Record<string, unknown>;
+}
+
+function readNumber(body: Record<string, unknown>, field: string, { min = -MAX_AMOUNT, max = MAX_AMOUNT } = {}): number {
+    const value = body[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ValidationError(`"${field}" must be a number.`);
+    }
+    if (value < min || value > max) {
+        throw new ValidationError(`"${field}" must be between ${min} and ${max}.`);
+    }
+    return value;
+}
+
+function readString(body: Record<string, unknown>, field: string, maxLength: number): string {
+    const value = body[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new ValidationError(`"${field}" must be a non-empty string.`);
+    }
+    if (value.length > maxLength) {
+        throw new ValidationError(`"${field}" must be at most ${maxLength} characters.`);
+    }
+    return value.trim();
+}
+
+function readEnum<T extends string>(body: Record<string, unknown>, field: string, allowed: readonly T[]): T {
+    const value = body[field];
+    if (!allowed.includes(value as T)) {
+        throw new ValidationError(`"${field}" must be one of: ${allowed.join(', ')}.`);
+    }
+    return value as T;
+}
+
+function readExpense(value: unknown, index: number): Expense {
+    const expense = asObject(value, `expenses[${index}]`);
+    const amount = expense.amount;
+    if (typeof amount !== 'string' || !Number.isFinite(parseFloat(amount)) || parseFloat(amount) < 0) {
+        throw new ValidationError(`"expenses[${index}].amount" must be a non-negative numeric string.`);
+    }
+    return {
+        id: readNumber(expense, 'id', { min: 0, max: Number.MAX_SAFE_INTEGER }),
+        name: readString(expense, 'name', MAX_EXPENSE_NAME_LENGTH),
+        amount,
+        category: readEnum(expense, 'category', EXPENSE_CATEGORIES),
+        frequency: readEnum(expense, 'frequency', EXPENSE_FREQUENCIES),
+        tag: readEnum(expense, 'tag', EXPENSE_TAGS),
+        currency: readEnum(expense, 'currency', CURRENCIES),
+    };
+}
+
+/** Reads the expense list of a budget. Amounts are never converted, so every expense must be in the budget's currency. */
+function readExpenses(value: unknown, currency: CurrencyCode): Expense[] {
+    if (!Array.isArray(value) || value.length > MAX_EXPENSES) {
+        throw new ValidationError(`"expenses" must be an array of at most ${MAX_EXPENSES} items.`);
+    }
+    return value.map((item, index) => {
+        const expense = readExpense(item, index);
+        if (expense.currency !== currency) {
+            throw new ValidationError(`"expenses[${index}].currency" must be ${currency}, the currency of the budget.`);
+        }
+        return expense;
+    });
+}
+
+/** Requests from clients that predate country support are US budgets. */
+function readCountry(body: Record<string, unknown>): CountryCode {
+    return body.country === undefined ? 'US' : readEnum(body, 'country', COUNTRIES);
+}
+
+function readFilingStatus(body: Record<string, unknown>, country: CountryCode): FilingStatus {
+    return readEnum<FilingStatus>(body, 'filingStatus', FILING_STATUSES_BY_COUNTRY[country]);
+}
+
+function readCategoryTotal(value: unknown, index: number): CategoryTotal {
+    const total = asObject(value, `categoryTotals[${index}]`);
+    return {
+        category: readEnum(total, 'category', EXPENSE_CATEGORIES),
+        monthlyTotal: readNumber(total, 'monthlyTotal', { min: 0 }),
+        share: readNumber(total, 'share', { min: 0, max: 1 }),
+    };
+}
+
+/** Reads an optional array, so older clients that don't send it keep working. */
+function readOptionalArray<T>(body: Record<string, unknown>, field: string, maxItems: number, read: (item: Record<string, unknown>) => T): T[] {
+    const value = body[field];
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.length > maxItems) {
+        throw new ValidationError(`"${field}" must be an array of at most ${maxItems} items.`);
+    }
+    return value.map((item, index) => read(asObject(item, `${field}[${index}]`)));
+}
+
+export function parseTaxEstimateRequest(value: unknown): TaxEstimateRequest {
+    const body = asObject(value, 'Request body');
+    const country = readCountry(body);
+    return {
+        grossMonthlyIncome: readNumber(body, 'grossMonthlyIncome', { min: 0 }),
+        country,
+        location: readString(body, 'location', MAX_LOCATION_LENGTH),
+        filingStatus: readFilingStatus(body, country),
+        incomes: readOptionalArray(body, 'incomes', MAX_INCOMES, (item): TaxEstimateIncome => ({
+            type: readEnum(item, 'type', INCOME_TYPES),
+            monthlyAmount: readNumber(item, 'monthlyAmount', { min: 0 }),
+        })),
+        deductions: readOptionalArray(body, 'deductions', MAX_DEDUCTIONS, (item): TaxEstimateDeduction => ({
+            type: readEnum(item, 'type', DEDUCTION_TYPES),
+            monthlyAmount: readNumber(item, 'monthlyAmount', { min: 0 }),
+        })),
+    };
+}
+
+/** Reads a `YYYY-MM` month, or null when the field is null. */
+function readMonthOrNull(body: Record<string, unknown>, field: string): string | null {
+    const value = body[field];
+    if (value === null) return null;
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}$/.test(value)) {
+        throw new ValidationError(`"${field}" must be a YYYY-MM month or null.`);
+    }
+    return value;
+}
+
+function readPlan(value: unknown): PlanSummary | null {
+    if (value === undefined || value === null) return null;
+    const plan = asObject(value, 'plan');
+    return {
+        strategy: readEnum(plan, 'strategy', PAYOFF_STRATEGIES),
+        goals: readOptionalArray(plan, 'goals', MAX_GOALS, (goal): GoalProjectionSummary => ({
+            name: readString(goal, 'name', MAX_EXPENSE_NAME_LENGTH),
+            targetAmount: readNumber(goal, 'targetAmount', { min: 0 }),
+            currentAmount: readNumber(goal, 'currentAmount', { min: 0 }),
+            targetDate: readMonthOrNull(goal, 'targetDate'),
+            projectedDate: readMonthOrNull(goal, 'projectedDate'),
+            onTrack: goal.onTrack === true,
+        })),
+        debts: readOptionalArray(plan, 'debts', MAX_DEBTS, (debt): DebtProjectionSummary => ({
+            name: readString(debt, 'name', MAX_EXPENSE_NAME_LENGTH),
+            balance: readNumber(debt, 'balance', { min: 0 }),
+            apr: readNumber(debt, 'apr', { min: 0, max: 100 }),
+            minimumPayment: readNumber(debt, 'minimumPayment', { min: 0 }),
+            projectedPayoffDate: readMonthOrNull(debt, 'projectedPayoffDate'),
+            interestPaid: readNumber(debt, 'interestPaid', { min: 0, max: Number.MAX_VALUE }),
+        })),
+        totalInterest: readNumber(plan, 'totalInterest', { min: 0, max: Number.MAX_VALUE }),
+        alternativeTotalInterest: readNumber(plan, 'alternativeTotalInterest', { min: 0, max: Number.MAX_VALUE }),
+        debtFreeDate: readMonthOrNull(plan, 'debtFreeDate'),
+    };
+}
+
+export function parseBudgetAnalysisRequest(value: unknown): BudgetAnalysisRequest {
+    const body = asObject(value, 'Request body');
+    const currency = readEnum(body, 'currency', CURRENCIES);
+    return {
+        grossIncome: readNumber(body, 'grossIncome', { min: 0 }),
+        netIncome: readNumber(body, 'netIncome'),
+        location: readString(body, 'location', MAX_LOCATION_LENGTH),
+        currency,
+        expenses: readExpenses(body.expenses, currency),
+        categoryTotals: Array.isArray(body.categoryTotals) ? body.categoryTotals.map(readCategoryTotal) : [],
+        totalExpenses: readNumber(body, 'totalExpenses', { min: 0 }),
+        remainingBalance: readNumber(body, 'remainingBalance'),
+        plan: readPlan(body.plan),
+        reuseCachedAnalysis: body.reuseCachedAnalysis === true,
+    };
+}
+
+export function parseCategorizeMerchantsRequest(value: unknown): CategorizeMerchantsRequest {
+    const body = asObject(value, 'Request body');
+    if (!Array.isArray(body.merchants) || body.merchants.length === 0 || body.merchants.length > MAX_MERCHANTS) {
+        throw new ValidationError(`"merchants" must be an array of 1 to ${MAX_MERCHANTS} items.`);
+    }
+    return {
+        merchants: body.merchants.map((item, index) => {
+            const merchant = asObject(item, `merchants[${index}]`);
+            return {
+                key: readString(merchant, 'key', MAX_MERCHANT_LENGTH),
+                description: readString(merchant, 'description', MAX_MERCHANT_LENGTH),
+            };
+        }),
+    };
+}
+
+export function parseScenarioComparisonRequest(value: unknown): ScenarioComparisonRequest {
+    const body = asObject(value, 'Request body');
+    if (!Array.isArray(body.scenarios) || body.scenarios.length < 2 || body.scenarios.length > MAX_SCENARIOS) {
+        throw new ValidationError(`"scenarios" must be an array of 2 to ${MAX_SCENARIOS} items.`);
+    }
+    return {
+        scenarios: body.scenarios.map((item, index) => {
+            const scenario = asObject(item, `scenarios[${index}]`);
+            return {
+                name: readString(scenario, 'name', MAX_SCENARIO_NAME_LENGTH),
+                currency: readEnum(scenario, 'currency', CURRENCIES),
+                location: readString(scenario, 'location', MAX_LOCATION_LENGTH),
+                filingStatus: readEnum<FilingStatus>(scenario, 'filingStatus', FILING_STATUSES),
+                grossIncome: readNumber(scenario, 'grossIncome', { min: 0 }),
+                netIncome: readNumber(scenario, 'netIncome'),
+                totalTax: readNumber(scenario, 'totalTax', { min: 0 }),
+                totalExpenses: readNumber(scenario, 'totalExpenses', { min: 0 }),
+                remainingBalance: readNumber(scenario, 'remainingBalance'),
+                healthScore: readNumber(scenario, 'healthScore', { min: 0, max: 100 }),
+                analysisSummary: readString(scenario, 'analysisSummary', MAX_SUMMARY_LENGTH),
+            };
+        }),
+    };
+}
+
+function readChatContext(value: unknown): BudgetChatContext {
+    const context = asObject(value, 'context');
+    const country = readEnum(context, 'country', COUNTRIES);
+    const currency = readEnum(context, 'currency', CURRENCIES);
+    let taxes: BudgetChatContext['taxes'] = null;
+    if (context.taxes !== null && context.taxes !== undefined) {
+        const raw = asObject(context.taxes, 'taxes');
+        taxes = {
+            lines: readOptionalArray(raw, 'lines', MAX_TAX_LINES, (line): TaxLine => ({
+                label: readString(line, 'label', MAX_TAX_LABEL_LENGTH),
+                amount: readNumber(line, 'amount', { min: 0 }),
+                covered: line.covered !== false,
+            })),
+            preTaxDeductions: readNumber(raw, 'preTaxDeductions', { min: 0 }),
+        };
+    }
+    return {
+        country,
+        currency,
+        location: readString(context, 'location', MAX_LOCATION_LENGTH),
+        filingStatus: readFilingStatus(context, country),
+        grossIncome: readNumber(context, 'grossIncome', { min: 0 }),
+        netIncome: readNumber(context, 'netIncome'),
+        totalTax: readNumber(context, 'totalTax', { min: 0 }),
+        taxes,
+        expenses: readExpenses(context.expenses, currency),
+        totalExpenses: readNumber(context, 'totalExpenses', { min: 0 }),
+        remainingBalance: readNumber(context, 'remainingBalance'),
+        analysisSummary: typeof context.analysisSummary === 'string' ? context.analysisSummary.slice(0, MAX_SUMMARY_LENGTH) : null,
+    };
+}
+
+export function parseBudgetChatRequest(value: unknown): BudgetChatRequest {
+    const body = asObject(value, 'Request body');
+    return {
+        context: readChatContext(body.context),
+        history: readOptionalArray(body, 'history', MAX_CHAT_HISTORY, (turn): ChatTurn => ({
+            role: readEnum(turn, 'role', ['user', 'assistant'] as const),
+            text: readString(turn, 'text', MAX_CHAT_TURN_LENGTH),
+        })),
+        message: readString(body, 'message', MAX_CHAT_MESSAGE_LENGTH),
+    };
+}
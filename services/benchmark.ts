@@ -0,0 +1,46 @@
+import type { BenchmarkBucket, BenchmarkBucketName, BudgetBenchmark, CategoryTotal, ExpenseCategory } from '../types';
+
+/** The 50/30/20 rule: half of net income for needs, 30% for wants and 20% for savings and extra debt payments. */
+export const BENCHMARK_TARGETS: Record<BenchmarkBucketName, number> = {
+    needs: 0.5,
+    wants: 0.3,
+    savings: 0.2,
+};
+
+export const CATEGORY_BUCKETS: Record<ExpenseCategory, BenchmarkBucketName> = {
+    housing: 'needs',
+    utilities: 'needs',
+    transport: 'needs',
+    food: 'needs',
+    health: 'needs',
+    insurance: 'needs',
+    childcare: 'needs',
+    debt: 'needs',
+    savings: 'savings',
+    personal: 'wants',
+    discretionary: 'wants',
+    other: 'wants',
+};
+
+/**
+ * Splits spending into 50/30/20 buckets as shares of net income. Any positive remaining balance
+ * counts towards savings, since it is money not spent.
+ */
+export function computeBenchmark(
+    netIncome: number,
+    categoryTotals: CategoryTotal[],
+    remainingBalance: number
+): Omit<BudgetBenchmark, 'comment'> {
+    const amounts: Record<BenchmarkBucketName, number> = { needs: 0, wants: 0, savings: Math.max(0, remainingBalance) };
+    for (const { category, monthlyTotal } of categoryTotals) {
+        amounts[CATEGORY_BUCKETS[category]] += monthlyTotal;
+    }
+
+    const bucket = (name: BenchmarkBucketName): BenchmarkBucket => ({
+        targetShare: BENCHMARK_TARGETS[name],
+        actualShare: netIncome > 0 ? amounts[name] / netIncome : 0,
+        monthlyAmount: Math.round(amounts[name] * 100) / 100,
+    });
+
+    return { needs: bucket('needs'), wants: bucket('wants'), savings: bucket('savings') };
+}
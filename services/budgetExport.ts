@@ -0,0 +1,183 @@
+import { CATEGORY_LABELS, FREQUENCY_LABELS, toMonthlyAmount } from './expenses';
+import { AMOUNT_PERIOD_LABELS, DEDUCTION_TYPE_LABELS, INCOME_TYPE_LABELS, toMonthlyDeduction, toMonthlyIncome } from './income';
+import { COUNTRY_SETTINGS } from './locale';
+import { migrateStore, SCHEMA_VERSION } from './storage';
+import type { BudgetAnalysis, BudgetExport, BudgetInputs, BudgetResults } from '../types';
+
+/** Thrown when an import file or share link can't be read. The message is shown to the user. */
+export class BudgetImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetImportError';
+    }
+}
+
+export interface ImportedBudget {
+    name: string;
+    inputs: BudgetInputs;
+}
+
+/** Share links go in the URL fragment, which browsers never send to a server. */
+export const SHARE_HASH_PREFIX = '#budget=';
+
+export function createBudgetExport(
+    name: string,
+    inputs: BudgetInputs,
+    results: BudgetResults | null,
+    analysis: BudgetAnalysis | null
+): BudgetExport {
+    return {
+        format: 'ai-budget-analyzer',
+        version: SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        name,
+        inputs,
+        results,
+        analysis,
+    };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads the budget back the same way saved budgets are loaded, so files from older versions are
+ * migrated and missing or invalid fields fall back to defaults.
+ */
+function toImportedBudget(version: unknown, name: unknown, inputs: unknown): ImportedBudget {
+    let store;
+    try {
+        store = migrateStore({ version, activeProfileId: '', profiles: [{ name, inputs }] });
+    } catch (error) {
+        throw new BudgetImportError(error instanceof Error ? error.message : 'The budget could not be read.');
+    }
+    const [profile] = store.profiles;
+    return { name: profile.name, inputs: profile.inputs };
+}
+
+export function parseBudgetExport(text: string): ImportedBudget {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new BudgetImportError('This file is not valid JSON.');
+    }
+    if (!isRecord(raw) || raw.format !== 'ai-budget-analyzer' || !isRecord(raw.inputs)) {
+        throw new BudgetImportError('This file is not a budget exported from this app.');
+    }
+    return toImportedBudget(raw.version, raw.name, raw.inputs);
+}
+
+// Text cells starting with these would run as formulas when the CSV is opened in a spreadsheet.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: string | number | null): string {
+    if (value === null) return '';
+    if (typeof value === 'number') return value.toFixed(2);
+    const text = FORMULA_PREFIX.test(value) && isNaN(Number(value)) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per income, deduction, tax, expense, goal, debt and total, for use in a spreadsheet. */
+export function budgetToCsv(data: BudgetExport): string {
+    const { inputs, results, analysis } = data;
+    const { currency } = COUNTRY_SETTINGS[inputs.country];
+    const rows: (string | number | null)[][] = [
+        ['Section', 'Name', 'Type', 'Amount', 'Period', 'Monthly amount', 'Currency'],
+        ...inputs.incomes.map(income => [
+            'Income', income.name, INCOME_TYPE_LABELS[inputs.country][income.type], income.amount, AMOUNT_PERIOD_LABELS[income.amountPeriod], toMonthlyIncome(income) || 0, currency,
+        ]),
+        ...inputs.deductions.map(deduction => [
+            'Pre-tax deduction', deduction.name, DEDUCTION_TYPE_LABELS[inputs.country][deduction.type], deduction.amount, AMOUNT_PERIOD_LABELS[deduction.amountPeriod], toMonthlyDeduction(deduction) || 0, currency,
+        ]),
+        ...(results?.taxSource === 'local' && results.taxBreakdown
+            ? results.taxBreakdown.lines.map(line => ['Tax', line.label, line.covered ? '' : 'Not in tables', null, 'per month', line.covered ? line.amount : null, currency])
+            : []),
+        ...inputs.expenses.map(expense => [
+            'Expense', expense.name, CATEGORY_LABELS[expense.category], expense.amount, FREQUENCY_LABELS[expense.frequency], toMonthlyAmount(expense) || 0, expense.currency,
+        ]),
+        ...inputs.goals.map(goal => ['Savings goal', goal.name, goal.targetDate ? `Due ${goal.targetDate}` : '', goal.targetAmount, null, null, currency]),
+        ...inputs.debts.map(debt => ['Debt', debt.name, debt.apr ? `${debt.apr}% APR` : '', debt.balance, null, parseFloat(debt.minimumPayment) || 0, currency]),
+    ];
+    if (results) {
+        rows.push(
+            ['Total', 'Gross income', null, null, 'per month', results.grossIncome, currency],
+            ['Total', 'Taxes', results.taxSource === 'ai' ? 'AI estimate' : null, null, 'per month', results.totalTax, currency],
+            ['Total', 'Net income', null, null, 'per month', results.netIncome, currency],
+            ['Total', 'Expenses', null, null, 'per month', results.totalExpenses, currency],
+            ['Total', 'Remaining balance', null, null, 'per month', results.remainingBalance, currency],
+        );
+    }
+    if (analysis) {
+        rows.push(
+            ['Analysis', 'Health score', `${analysis.healthScore}/100`, null, null, null, null],
+            ...analysis.recommendations.map(r => ['Recommendation', r.title, null, null, 'per month', r.estimatedMonthlySavings, currency]),
+        );
+    }
+    return rows.map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * The inputs carried by a share link. Listed field by field so nothing else, such as AI text or
+ * chat history, can end up in a link; row ids are dropped to keep it short and are recreated on open.
+ */
+function toSharedInputs(inputs: BudgetInputs) {
+    const withoutId = <T extends { id: number }>({ id, ...rest }: T) => rest;
+    return {
+        incomes: inputs.incomes.map(withoutId),
+        deductions: inputs.deductions.map(withoutId),
+        country: inputs.country,
+        filingStatus: inputs.filingStatus,
+        location: inputs.location,
+        expenses: inputs.expenses.map(withoutId),
+        goals: inputs.goals.map(withoutId),
+        debts: inputs.debts.map(withoutId),
+        payoffStrategy: inputs.payoffStrategy,
+        useAiTaxCheck: inputs.useAiTaxCheck,
+        reuseAnalysis: inputs.reuseAnalysis,
+    };
+}
+
+async function compress(text: string): Promise<Uint8Array> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(bytes: Uint8Array): Promise<string> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/** Builds a link that opens a copy of the budget's inputs, compressed into the URL fragment. */
+export async function createShareUrl(name: string, inputs: BudgetInputs, baseUrl: string): Promise<string> {
+    const payload = JSON.stringify({ version: SCHEMA_VERSION, name, inputs: toSharedInputs(inputs) });
+    const url = new URL(baseUrl);
+    url.hash = `${SHARE_HASH_PREFIX.slice(1)}${toBase64Url(await compress(payload))}`;
+    return url.toString();
+}
+
+/** Returns the budget in a share link's fragment, or null when the fragment isn't a share link. */
+export async function readShareHash(hash: string): Promise<ImportedBudget | null> {
+    if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await decompress(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length))));
+    } catch {
+        throw new BudgetImportError('This share link is damaged or incomplete.');
+    }
+    if (!isRecord(raw) || !isRecord(raw.inputs)) {
+        throw new BudgetImportError('This share link is damaged or incomplete.');
+    }
+    return toImportedBudget(raw.version, raw.name, raw.inputs);
+}
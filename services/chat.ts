@@ -0,0 +1,64 @@
+import { createExpense, MAX_EXPENSES } from './expenses';
+import type { ChatMessage, ChatRole, ChatTurn, Expense, ExpenseEdit } from '../types';
+
+/** Older messages are dropped from the stored conversation beyond this many. */
+export const MAX_STORED_CHAT_MESSAGES = 100;
+
+/** Only the most recent turns are sent as context, which keeps requests small in long conversations. */
+export const MAX_CHAT_HISTORY = 20;
+
+export function createChatMessage(role: ChatRole, text: string, edits: ExpenseEdit[] = []): ChatMessage {
+    return {
+        id: `message-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        role,
+        text,
+        createdAt: new Date().toISOString(),
+        edits,
+        appliedEdits: [],
+    };
+}
+
+export function appendChatMessages(messages: ChatMessage[], ...added: ChatMessage[]): ChatMessage[] {
+    return [...messages, ...added].slice(-MAX_STORED_CHAT_MESSAGES);
+}
+
+/** The server rejects history turns longer than this. */
+const MAX_CHAT_TURN_LENGTH = 8000;
+
+/**
+ * Budget for the history in the request body, which the server caps at 64 KB; the rest is left for
+ * the budget context and the new message.
+ */
+const MAX_CHAT_HISTORY_BYTES = 24 * 1024;
+
+/** The most recent turns that fit the server's limits, each shortened to the longest turn it accepts. */
+export function toChatHistory(messages: ChatMessage[]): ChatTurn[] {
+    const encoder = new TextEncoder();
+    const history: ChatTurn[] = [];
+    let bytes = 0;
+    for (const { role, text } of messages.slice(-MAX_CHAT_HISTORY).reverse()) {
+        const turn: ChatTurn = { role, text: text.length > MAX_CHAT_TURN_LENGTH ? `${text.slice(0, MAX_CHAT_TURN_LENGTH - 1)}…` : text };
+        bytes += encoder.encode(JSON.stringify(turn)).length + 1;
+        if (bytes > MAX_CHAT_HISTORY_BYTES) break;
+        history.unshift(turn);
+    }
+    return history;
+}
+
+/** False when the edit targets an expense that has since been removed, or would add one past MAX_EXPENSES. */
+export function canApplyExpenseEdit(expenses: Expense[], edit: ExpenseEdit): boolean {
+    if (edit.action === 'add') return expenses.length < MAX_EXPENSES;
+    return expenses.some(expense => expense.id === edit.expenseId);
+}
+
+export function applyExpenseEdit(expenses: Expense[], edit: ExpenseEdit): Expense[] {
+    const fields = { name: edit.name, amount: String(edit.amount), category: edit.category, frequency: edit.frequency, currency: edit.currency };
+    switch (edit.action) {
+        case 'add':
+            return [...expenses, createExpense(fields)];
+        case 'update':
+            return expenses.map(expense => expense.id === edit.expenseId ? { ...expense, ...fields } : expense);
+        case 'remove':
+            return expenses.filter(expense => expense.id !== edit.expenseId);
+    }
+}
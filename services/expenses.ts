@@ -0,0 +1,102 @@
+import { EXPENSE_CATEGORIES } from '../types';
+import type { CategoryTotal, Expense, ExpenseCategory, ExpenseFrequency, ExpenseTag } from '../types';
+
+export const CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+    housing: 'Housing',
+    utilities: 'Utilities',
+    transport: 'Transport',
+    food: 'Food',
+    health: 'Health',
+    insurance: 'Insurance',
+    debt: 'Debt',
+    savings: 'Savings',
+    childcare: 'Childcare',
+    personal: 'Personal',
+    discretionary: 'Discretionary',
+    other: 'Other',
+};
+
+/** Chart colors, chosen to stay distinguishable next to each other in the donut and flow charts. */
+export const CATEGORY_COLORS: Record<ExpenseCategory, string> = {
+    housing: '#2563eb',
+    utilities: '#0891b2',
+    transport: '#7c3aed',
+    food: '#ea580c',
+    health: '#dc2626',
+    insurance: '#0d9488',
+    debt: '#9f1239',
+    savings: '#16a34a',
+    childcare: '#db2777',
+    personal: '#ca8a04',
+    discretionary: '#9333ea',
+    other: '#64748b',
+};
+
+export const FREQUENCY_LABELS: Record<ExpenseFrequency, string> = {
+    'weekly': 'Weekly',
+    'biweekly': 'Every 2 weeks',
+    'monthly': 'Monthly',
+    'quarterly': 'Quarterly',
+    'annual': 'Annual',
+    'one-time': 'One-time',
+};
+
+export const TAG_LABELS: Record<ExpenseTag, string> = {
+    fixed: 'Fixed',
+    variable: 'Variable',
+    essential: 'Essential',
+};
+
+/** How many times per month each frequency occurs. One-time costs are spread over a year. */
+export const MONTHLY_FACTORS: Record<ExpenseFrequency, number> = {
+    'weekly': 52 / 12,
+    'biweekly': 26 / 12,
+    'monthly': 1,
+    'quarterly': 1 / 3,
+    'annual': 1 / 12,
+    'one-time': 1 / 12,
+};
+
+/** The server refuses budgets with more expenses than this, so adding and importing stop at it. */
+export const MAX_EXPENSES = 100;
+
+export function createExpense(overrides: Partial<Omit<Expense, 'id'>> = {}): Expense {
+    return {
+        id: Date.now() + Math.random(),
+        name: '',
+        amount: '',
+        category: 'other',
+        frequency: 'monthly',
+        tag: 'variable',
+        currency: 'USD',
+        ...overrides,
+    };
+}
+
+/** Negative amounts, such as a refund, aren't expenses and are rejected by the server too. */
+export const isNegativeAmount = (expense: Expense) => parseFloat(expense.amount) < 0;
+
+export function isValidExpense(expense: Expense): boolean {
+    return expense.name.trim() !== '' && expense.amount.trim() !== '' && parseFloat(expense.amount) >= 0;
+}
+
+export function toMonthlyAmount(expense: Expense): number {
+    return parseFloat(expense.amount) * MONTHLY_FACTORS[expense.frequency];
+}
+
+export function summarizeByCategory(expenses: Expense[]): CategoryTotal[] {
+    const totals = new Map<ExpenseCategory, number>();
+    for (const expense of expenses.filter(isValidExpense)) {
+        totals.set(expense.category, (totals.get(expense.category) ?? 0) + toMonthlyAmount(expense));
+    }
+    const grandTotal = [...totals.values()].reduce((sum, value) => sum + value, 0);
+
+    return EXPENSE_CATEGORIES
+        .filter(category => totals.has(category))
+        .map(category => ({
+            category,
+            monthlyTotal: totals.get(category)!,
+            share: grandTotal > 0 ? totals.get(category)! / grandTotal : 0,
+        }))
+        .sort((a, b) => b.monthlyTotal - a.monthlyTotal);
+}
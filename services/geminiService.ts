@@ -1,98 +1,244 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { Expense } from '../types';
+import { summarizeDeductions, summarizeIncomes } from './income';
+import { isTransientStatus, withRetry } from './retry';
+import type {
+    AiUsageSummary,
+    BudgetAnalysis,
+    BudgetAnalysisRequest,
+    BudgetAnalysisStreamEvent,
+    BudgetChatContext,
+    BudgetChatReply,
+    BudgetChatRequest,
+    CategorizeMerchantsRequest,
+    CategoryTotal,
+    ChatTurn,
+    CountryCode,
+    CurrencyCode,
+    Expense,
+    ExpenseCategory,
+    IncomeStream,
+    MerchantToCategorize,
+    PlanSummary,
+    PreTaxDeduction,
+    ScenarioComparison,
+    ScenarioComparisonRequest,
+    ScenarioSummary,
+    TaxEstimateRequest,
+    TaxEstimateResult,
+} from '../types';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+/** An error reported by the API server, with a message that is safe to show to the user. */
+export class AiServiceError extends Error {
+    constructor(public status: number, message: string, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'AiServiceError';
+    }
+}
+
+/** Longer waits requested through Retry-After are reported to the user instead of retried silently. */
+const MAX_RETRY_AFTER_MS = 10_000;
+
+/**
+ * The server already retries the AI provider, so only failures in reaching the server itself are
+ * retried here: network errors, rate limiting and gateway errors from the dev proxy.
+ */
+function isRetryable(error: unknown): boolean {
+    if (!(error instanceof AiServiceError)) return false;
+    if (error.status === 429) return (error.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS;
+    return error.status === 0 || (isTransientStatus(error.status) && error.status !== 502 && error.status !== 503);
+}
+
+/** Sends `body` as a JSON POST, or makes a GET request when it is undefined. */
+async function send(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    return withRetry(async () => {
+        let response: Response;
+        try {
+            response = await fetch(endpoint, body === undefined ? { signal } : {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal,
+            });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error(`Error reaching ${endpoint}:`, error);
+            throw new AiServiceError(0, "Could not reach the analysis server. Is it running?");
+        }
+
+        if (!response.ok) {
+            const payload = await response.json().catch(() => null);
+            const retryAfter = Number(response.headers.get('Retry-After'));
+            throw new AiServiceError(
+                response.status,
+                payload?.error ?? `The analysis server responded with ${response.status}.`,
+                retryAfter > 0 ? retryAfter * 1000 : undefined
+            );
+        }
+        return response;
+    }, {
+        signal,
+        shouldRetry: isRetryable,
+        getRetryAfterMs: error => (error as AiServiceError).retryAfterMs,
+    });
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+async function postJson<T>(endpoint: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await send(endpoint, body, signal);
+    return response.json() as Promise<T>;
+}
+
+export async function getUsageSummary(signal?: AbortSignal): Promise<AiUsageSummary> {
+    const response = await send('/api/usage', undefined, signal);
+    return response.json() as Promise<AiUsageSummary>;
+}
 
 export async function getEstimatedNetIncome(
     grossMonthlyIncome: number,
+    country: CountryCode,
     location: string,
-    filingStatus: string
-): Promise<{ netIncome: number; totalTax: number; disclaimer: string }> {
-     const prompt = `Act as a tax calculator. Based on the user's details, estimate their monthly net income.
-        - Gross Monthly Income: $${grossMonthlyIncome}
-        - Location: "${location}" (Consider US federal, state, and any applicable local/city taxes)
-        - Tax Filing Status: "${filingStatus}"
-        
-        Use standard deductions for your calculation. Provide the result as a JSON object. The JSON object should contain 'estimatedNetIncome' (number), 'estimatedTotalTax' (number), and a brief one-sentence 'disclaimer' stating that this is an estimate for informational purposes only and not financial advice.`;
+    filingStatus: TaxEstimateRequest['filingStatus'],
+    incomes: IncomeStream[],
+    deductions: PreTaxDeduction[],
+    signal?: AbortSignal
+): Promise<TaxEstimateResult> {
+    const request: TaxEstimateRequest = {
+        grossMonthlyIncome,
+        country,
+        location,
+        filingStatus,
+        incomes: summarizeIncomes(incomes),
+        deductions: summarizeDeductions(deductions),
+    };
+    return postJson<TaxEstimateResult>('/api/tax-estimate', request, signal);
+}
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        estimatedNetIncome: { type: Type.NUMBER, description: "The estimated monthly income after all taxes." },
-                        estimatedTotalTax: { type: Type.NUMBER, description: "The total estimated monthly tax amount." },
-                        disclaimer: { type: Type.STRING, description: "A brief disclaimer." }
-                    },
-                    required: ["estimatedNetIncome", "estimatedTotalTax", "disclaimer"]
-                }
-            }
-        });
-
-        const result = JSON.parse(response.text);
-        return {
-            netIncome: result.estimatedNetIncome,
-            totalTax: result.estimatedTotalTax,
-            disclaimer: result.disclaimer,
-        };
-    } catch (error) {
-        console.error("Error calling Gemini API for tax estimation:", error);
-        throw new Error("Failed to generate tax estimation from AI.");
-    }
+export async function getBudgetAnalysis(
+    grossIncome: number,
+    netIncome: number,
+    location: string,
+    currency: CurrencyCode,
+    expenses: Expense[],
+    categoryTotals: CategoryTotal[],
+    totalExpenses: number,
+    remainingBalance: number,
+    plan: PlanSummary | null,
+    reuseCached: boolean = false,
+    signal?: AbortSignal
+): Promise<BudgetAnalysis> {
+    const request: BudgetAnalysisRequest = { grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan, reuseCachedAnalysis: reuseCached };
+    const { analysis } = await postJson<{ analysis: BudgetAnalysis }>('/api/budget-analysis', request, signal);
+    return analysis;
 }
 
+export interface StreamOptions {
+    signal?: AbortSignal;
+    /** Called with all text received so far each time a chunk arrives. */
+    onProgress?: (text: string) => void;
+    /** Return the server's last analysis of an identical budget instead of asking the AI again. */
+    reuseCached?: boolean;
+}
 
-export async function getBudgetAnalysis(
+/** Like getBudgetAnalysis, but reports the response as it streams in. */
+export async function streamBudgetAnalysis(
     grossIncome: number,
     netIncome: number,
     location: string,
+    currency: CurrencyCode,
     expenses: Expense[],
+    categoryTotals: CategoryTotal[],
     totalExpenses: number,
-    remainingBalance: number
-): Promise<string> {
-    const expenseList = expenses
-        .map(e => `- ${e.name}: $${parseFloat(e.amount).toFixed(2)}`)
-        .join('\n');
-
-    const prompt = `
-You are a friendly and insightful financial assistant. A user has provided their monthly budget information. Your task is to provide a brief, encouraging, and helpful analysis of their budget.
-
-**User's Financial Details:**
-- **Location:** ${location}
-- **Gross Monthly Income:** $${grossIncome.toFixed(2)}
-- **Estimated Net Monthly Income (After Tax):** $${netIncome.toFixed(2)}
-- **Monthly Expenses:**
-${expenseList}
-- **Total Monthly Expenses:** $${totalExpenses.toFixed(2)}
-- **Remaining Balance:** $${remainingBalance.toFixed(2)}
-
-**Your Task:**
-Based on this information, provide a short analysis (2-3 paragraphs). Follow these instructions:
-1.  **Tone:** Be positive, encouraging, and non-judgmental, regardless of the remaining balance.
-2.  **Analysis:** Briefly comment on their financial situation. If the balance is positive, congratulate them. If it's negative, be reassuring and focus on actionable steps.
-3.  **Actionable Tip:** Provide one or two simple, actionable tips relevant to their situation. For example, if they have a positive balance, suggest a savings or investment goal. If it's negative, suggest a common area where people can cut back. The location might influence the tips (e.g., high cost of living area).
-4.  **Format:** Write in clear, easy-to-understand language. Do not use markdown like headers or bold text.
-
-Speak directly to the user.
-`;
+    remainingBalance: number,
+    plan: PlanSummary | null,
+    { signal, onProgress, reuseCached = false }: StreamOptions = {}
+): Promise<BudgetAnalysis> {
+    const request: BudgetAnalysisRequest = { grossIncome, netIncome, location, currency, expenses, categoryTotals, totalExpenses, remainingBalance, plan, reuseCachedAnalysis: reuseCached };
+    const response = await send('/api/budget-analysis/stream', request, signal);
+    if (!response.body) {
+        throw new AiServiceError(502, "The analysis server returned an empty response.");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines.filter(l => l.trim() !== '')) {
+            const event = JSON.parse(line) as BudgetAnalysisStreamEvent;
+            if (event.type === 'chunk') {
+                text += event.text;
+                onProgress?.(text);
+            } else if (event.type === 'result') {
+                return event.analysis;
+            } else {
+                throw new AiServiceError(502, event.error);
+            }
+        }
+    }
+    throw new AiServiceError(502, "The analysis stream ended before the analysis was complete.");
+}
 
+/** Reads the summary out of a partially received analysis, so it can be shown while the rest streams in. */
+export function extractPartialSummary(text: string): string {
+    const match = /"summary"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(text);
+    if (!match) return '';
+    const raw = match[1].replace(/\\u[0-9a-fA-F]{0,3}$/, '');
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-        return response.text;
-    } catch (error) {
-        console.error("Error calling Gemini API for budget analysis:", error);
-        throw new Error("Failed to generate budget analysis from AI.");
+        return JSON.parse(`"${raw}"`);
+    } catch {
+        return raw;
     }
 }
+
+/** The server accepts at most 200 merchants and 64 KB per request; batches stay under both. */
+const MAX_MERCHANTS_PER_REQUEST = 200;
+const MAX_MERCHANT_BATCH_BYTES = 48 * 1024;
+
+function toMerchantBatches(merchants: MerchantToCategorize[]): MerchantToCategorize[][] {
+    const batches: MerchantToCategorize[][] = [];
+    let batch: MerchantToCategorize[] = [];
+    let bytes = 0;
+    for (const merchant of merchants) {
+        const size = JSON.stringify(merchant).length + 1;
+        if (batch.length > 0 && (batch.length >= MAX_MERCHANTS_PER_REQUEST || bytes + size > MAX_MERCHANT_BATCH_BYTES)) {
+            batches.push(batch);
+            batch = [];
+            bytes = 0;
+        }
+        batch.push(merchant);
+        bytes += size;
+    }
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+}
+
+/** Categorizes any number of merchants, one request per batch. */
+export async function categorizeMerchants(merchants: MerchantToCategorize[], signal?: AbortSignal): Promise<Record<string, ExpenseCategory>> {
+    const result: Record<string, ExpenseCategory> = {};
+    for (const batch of toMerchantBatches(merchants)) {
+        const request: CategorizeMerchantsRequest = { merchants: batch };
+        const { categories } = await postJson<{ categories: Record<string, ExpenseCategory> }>('/api/categorize', request, signal);
+        Object.assign(result, categories);
+    }
+    return result;
+}
+
+export async function compareScenarios(scenarios: ScenarioSummary[], signal?: AbortSignal): Promise<ScenarioComparison> {
+    const request: ScenarioComparisonRequest = { scenarios };
+    const { comparison } = await postJson<{ comparison: ScenarioComparison }>('/api/scenario-comparison', request, signal);
+    return comparison;
+}
+
+export async function sendChatMessage(
+    context: BudgetChatContext,
+    history: ChatTurn[],
+    message: string,
+    signal?: AbortSignal
+): Promise<BudgetChatReply> {
+    const request: BudgetChatRequest = { context, history, message };
+    const { reply } = await postJson<{ reply: BudgetChatReply }>('/api/chat', request, signal);
+    return reply;
+}
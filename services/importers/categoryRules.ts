@@ -0,0 +1,27 @@
+import type { ExpenseCategory } from '../../types';
+
+/** Keyword rules checked in order; the first match wins. Keywords match whole words, ignoring case. */
+export const CATEGORY_RULES: { category: ExpenseCategory; keywords: string[] }[] = [
+    { category: 'housing', keywords: ['rent', 'mortgage', 'hoa', 'property mgmt', 'property management', 'apartments', 'landlord'] },
+    { category: 'utilities', keywords: ['electric', 'energy', 'water', 'utility', 'utilities', 'pg&e', 'con ed', 'comcast', 'xfinity', 'spectrum', 'verizon', 'at&t', 't-mobile', 'internet', 'waste'] },
+    { category: 'insurance', keywords: ['insurance', 'geico', 'state farm', 'progressive', 'allstate', 'lemonade'] },
+    { category: 'debt', keywords: ['loan', 'navient', 'sallie mae', 'nelnet', 'credit card payment', 'card payment', 'autopay'] },
+    { category: 'savings', keywords: ['transfer to savings', 'savings transfer', 'vanguard', 'fidelity', 'schwab', 'betterment', 'wealthfront'] },
+    { category: 'childcare', keywords: ['daycare', 'day care', 'childcare', 'preschool', 'nanny', 'kindercare'] },
+    { category: 'health', keywords: ['pharmacy', 'cvs', 'walgreens', 'rite aid', 'dental', 'dentist', 'clinic', 'hospital', 'medical', 'optometrist', 'doctor'] },
+    { category: 'food', keywords: ['grocery', 'market', 'safeway', 'kroger', 'whole foods', 'trader joe', 'aldi', 'costco', 'publix', 'restaurant', 'cafe', 'coffee', 'starbucks', 'doordash', 'grubhub', 'uber eats', 'pizza', 'bakery', 'mcdonald', 'chipotle'] },
+    { category: 'transport', keywords: ['uber', 'lyft', 'shell', 'chevron', 'exxon', 'mobil', 'fuel', 'gas station', 'parking', 'transit', 'metro', 'toll', 'auto', 'dmv'] },
+    { category: 'personal', keywords: ['gym', 'fitness', 'salon', 'barber', 'haircut', 'spa', 'clothing', 'target'] },
+    { category: 'discretionary', keywords: ['netflix', 'spotify', 'hulu', 'disney+', 'hbo', 'youtube', 'apple.com', 'amazon', 'steam', 'playstation', 'xbox', 'cinema', 'theater', 'ticketmaster', 'bar', 'pub'] },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const COMPILED_RULES = CATEGORY_RULES.map(rule => ({
+    category: rule.category,
+    pattern: new RegExp(`(?<![a-z])(${rule.keywords.map(escapeRegExp).join('|')})(?![a-z])`, 'i'),
+}));
+
+export function categorizeByRules(description: string): ExpenseCategory | null {
+    return COMPILED_RULES.find(rule => rule.pattern.test(description))?.category ?? null;
+}
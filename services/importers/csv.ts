@@ -0,0 +1,154 @@
+import type { Transaction } from '../../types';
+
+export type DateFormat = 'YMD' | 'MDY' | 'DMY';
+
+export interface CsvColumnMapping {
+    hasHeader: boolean;
+    date: number;
+    description: number;
+    /** Single signed amount column. Ignored when `debit` is set. */
+    amount: number | null;
+    /** Separate columns for money out and money in, as some banks export. */
+    debit: number | null;
+    credit: number | null;
+    dateFormat: DateFormat;
+    /** Set for exports (typically credit cards) that show purchases as positive amounts. */
+    negateAmounts: boolean;
+}
+
+/** Splits CSV text into rows, handling quoted fields, escaped quotes and CRLF line endings. */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const delimiter = detectDelimiter(text);
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some(cell => cell.trim() !== '')) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    return rows.map(cells => cells.map(cell => cell.trim()));
+}
+
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const candidates = [',', ';', '\t'];
+    return candidates.reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    , ',');
+}
+
+export function parseAmount(value: string): number {
+    const trimmed = value.trim();
+    if (trimmed === '') return NaN;
+    const negative = /^\(.*\)$/.test(trimmed) || /^[^0-9]*-/.test(trimmed) || trimmed.endsWith('-');
+    const digits = trimmed.replace(/[^0-9.,]/g, '');
+    // Treat a trailing ",dd" as a decimal comma (e.g. 1.234,56).
+    const normalized = /,\d{1,2}$/.test(digits)
+        ? digits.replace(/\./g, '').replace(',', '.')
+        : digits.replace(/,/g, '');
+    const amount = parseFloat(normalized);
+    return negative ? -amount : amount;
+}
+
+export function parseDate(value: string, format: DateFormat): string | null {
+    const parts = value.trim().split(/[^0-9]+/).filter(Boolean).map(Number);
+    if (parts.length < 3) return null;
+
+    let [year, month, day] = format === 'YMD'
+        ? [parts[0], parts[1], parts[2]]
+        : format === 'MDY'
+            ? [parts[2], parts[0], parts[1]]
+            : [parts[2], parts[1], parts[0]];
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function findColumn(headers: string[], patterns: RegExp[]): number | null {
+    for (const pattern of patterns) {
+        const index = headers.findIndex(header => pattern.test(header));
+        if (index !== -1) return index;
+    }
+    return null;
+}
+
+function guessDateFormat(values: string[]): DateFormat {
+    if (values.some(value => /^\d{4}[-/.]/.test(value.trim()))) return 'YMD';
+    const firstParts = values.map(value => Number(value.trim().split(/[^0-9]+/)[0]));
+    return firstParts.some(part => part > 12) ? 'DMY' : 'MDY';
+}
+
+/** Picks likely columns from the header names; the user can correct the result in the mapping step. */
+export function guessColumnMapping(rows: string[][]): CsvColumnMapping {
+    const first = rows[0] ?? [];
+    const hasHeader = first.length > 0 && first.every(cell => isNaN(parseAmount(cell)) || cell === '');
+    const headers = hasHeader ? first.map(cell => cell.toLowerCase()) : [];
+
+    const date = findColumn(headers, [/^date$/, /posted|posting/, /date/]) ?? 0;
+    const description = findColumn(headers, [/description/, /payee|merchant|name/, /memo|details|narrative/]) ?? 1;
+    const debit = findColumn(headers, [/debit|withdrawal|money out|paid out/]);
+    const credit = findColumn(headers, [/credit|deposit|money in|paid in/]);
+    const amount = findColumn(headers, [/^amount$/, /amount/]) ?? (debit === null ? 2 : null);
+
+    const dataRows = rows.slice(hasHeader ? 1 : 0, 20);
+    return {
+        hasHeader,
+        date,
+        description,
+        amount,
+        debit: amount === null ? debit : null,
+        credit: amount === null ? credit : null,
+        dateFormat: guessDateFormat(dataRows.map(row => row[date] ?? '')),
+        negateAmounts: false,
+    };
+}
+
+export function csvToTransactions(rows: string[][], mapping: CsvColumnMapping): Transaction[] {
+    const transactions: Transaction[] = [];
+    rows.slice(mapping.hasHeader ? 1 : 0).forEach((row, index) => {
+        const date = parseDate(row[mapping.date] ?? '', mapping.dateFormat);
+        let amount: number;
+        if (mapping.debit !== null) {
+            const debit = parseAmount(row[mapping.debit] ?? '');
+            const credit = mapping.credit !== null ? parseAmount(row[mapping.credit] ?? '') : NaN;
+            amount = !isNaN(debit) && debit !== 0 ? -Math.abs(debit) : Math.abs(credit);
+        } else {
+            amount = parseAmount(row[mapping.amount ?? -1] ?? '');
+        }
+        if (!date || isNaN(amount)) return;
+
+        transactions.push({
+            id: `csv-${index}`,
+            date,
+            description: row[mapping.description] ?? '',
+            amount: mapping.negateAmounts ? -amount : amount,
+        });
+    });
+    return transactions;
+}
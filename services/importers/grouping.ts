@@ -0,0 +1,163 @@
+import { CATEGORY_LABELS, createExpense } from '../expenses';
+import { categorizeByRules } from './categoryRules';
+import type { CurrencyCode, Expense, ExpenseCategory, ExpenseFrequency, ImportSuggestion, Transaction } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_DAYS = 365.25 / 12;
+
+/** Typical gap in days between charges for each recurring frequency, with the tolerance allowed around it. */
+const RECURRING_INTERVALS: { frequency: ExpenseFrequency; days: number; tolerance: number }[] = [
+    { frequency: 'weekly', days: 7, tolerance: 2 },
+    { frequency: 'biweekly', days: 14, tolerance: 3 },
+    { frequency: 'monthly', days: AVERAGE_MONTH_DAYS, tolerance: 5 },
+    { frequency: 'quarterly', days: 91, tolerance: 10 },
+    { frequency: 'annual', days: 365, tolerance: 20 },
+];
+
+/** Charges whose amounts stay within this share of their median are treated as the same bill. */
+const AMOUNT_TOLERANCE = 0.15;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** Reduces a statement description to a stable merchant key, dropping card prefixes, dates and reference numbers. */
+export function normalizeMerchant(description: string): string {
+    return description
+        .toLowerCase()
+        .replace(/^(pos|debit card|card|recurring|ach|checkcard|purchase|payment to|online)\b( purchase| payment| debit)?\s*/g, '')
+        .replace(/^(sq|tst|sp|pp|paypal)\s*\*\s*/, '')
+        .replace(/[#*]?\d[\d\-/.:]*/g, ' ')
+        .replace(/[^a-z&'+. ]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .split(' ')
+        .slice(0, 3)
+        .join(' ');
+}
+
+const toTitleCase = (value: string) => value.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+function detectFrequency(charges: Transaction[]): ExpenseFrequency | null {
+    if (charges.length < 2) return null;
+
+    const amounts = charges.map(charge => -charge.amount);
+    const typical = median(amounts);
+    if (amounts.some(amount => Math.abs(amount - typical) > typical * AMOUNT_TOLERANCE)) return null;
+
+    const times = charges.map(charge => new Date(charge.date).getTime()).sort((a, b) => a - b);
+    const gaps = times.slice(1).map((time, i) => (time - times[i]) / DAY_MS);
+    const typicalGap = median(gaps);
+    const match = RECURRING_INTERVALS.find(interval => Math.abs(typicalGap - interval.days) <= interval.tolerance);
+    return match?.frequency ?? null;
+}
+
+/** Number of months the statement covers, used to turn irregular spending into a monthly average. */
+function statementMonths(transactions: Transaction[]): number {
+    const times = transactions.map(t => new Date(t.date).getTime());
+    const days = (Math.max(...times) - Math.min(...times)) / DAY_MS + 1;
+    return Math.max(1, Math.round(days / AVERAGE_MONTH_DAYS));
+}
+
+function groupOutflowsByMerchant(transactions: Transaction[]): Map<string, Transaction[]> {
+    const byMerchant = new Map<string, Transaction[]>();
+    for (const transaction of transactions.filter(t => t.amount < 0)) {
+        const key = normalizeMerchant(transaction.description) || transaction.description.toLowerCase();
+        byMerchant.set(key, [...(byMerchant.get(key) ?? []), transaction]);
+    }
+    return byMerchant;
+}
+
+/** Merchants that no local rule recognizes, keyed the same way as `buildImportSuggestions` expects AI categories. */
+export function findUncategorizedMerchants(transactions: Transaction[]): { key: string; description: string }[] {
+    return [...groupOutflowsByMerchant(transactions)]
+        .filter(([, charges]) => categorizeByRules(charges[0].description) === null)
+        .map(([key, charges]) => ({ key, description: charges[0].description }));
+}
+
+/**
+ * Turns statement transactions into suggested expenses: each recurring charge becomes its own entry at its
+ * detected frequency, and the remaining spending is averaged per category into monthly entries.
+ * `aiCategories` supplies categories, keyed by merchant, for merchants the local rules don't recognize.
+ */
+export function buildImportSuggestions(
+    transactions: Transaction[],
+    aiCategories: Record<string, ExpenseCategory> = {}
+): ImportSuggestion[] {
+    const byMerchant = groupOutflowsByMerchant(transactions);
+    if (byMerchant.size === 0) return [];
+
+    const suggestions: ImportSuggestion[] = [];
+    const irregular = new Map<ExpenseCategory, { total: number; count: number; usedAi: boolean }>();
+
+    for (const [key, charges] of byMerchant) {
+        const ruleCategory = categorizeByRules(charges[0].description);
+        const aiCategory = ruleCategory ? undefined : aiCategories[key];
+        const category = ruleCategory ?? aiCategory ?? 'other';
+        const categorySource = ruleCategory ? 'rule' : aiCategory ? 'ai' : 'default';
+        const frequency = detectFrequency(charges);
+
+        if (frequency) {
+            suggestions.push({
+                key: `recurring:${key}`,
+                name: toTitleCase(key),
+                amount: roundCents(median(charges.map(charge => -charge.amount))),
+                category,
+                frequency,
+                tag: 'fixed',
+                recurring: true,
+                transactionCount: charges.length,
+                categorySource,
+                include: true,
+            });
+            continue;
+        }
+
+        const bucket = irregular.get(category) ?? { total: 0, count: 0, usedAi: false };
+        bucket.total += charges.reduce((sum, charge) => sum - charge.amount, 0);
+        bucket.count += charges.length;
+        bucket.usedAi ||= categorySource === 'ai';
+        irregular.set(category, bucket);
+    }
+
+    const months = statementMonths([...byMerchant.values()].flat());
+    for (const [category, bucket] of irregular) {
+        suggestions.push({
+            key: `category:${category}`,
+            name: `${CATEGORY_LABELS[category]} spending`,
+            amount: roundCents(bucket.total / months),
+            category,
+            frequency: 'monthly',
+            tag: 'variable',
+            recurring: false,
+            transactionCount: bucket.count,
+            categorySource: category === 'other' ? 'default' : bucket.usedAi ? 'ai' : 'rule',
+            include: true,
+        });
+    }
+
+    return suggestions.sort((a, b) => Number(b.recurring) - Number(a.recurring) || b.amount - a.amount);
+}
+
+export function suggestionsToExpenses(suggestions: ImportSuggestion[], currency: CurrencyCode): Expense[] {
+    return suggestions
+        .filter(suggestion => suggestion.include)
+        .map(suggestion => createExpense({
+            name: suggestion.name,
+            amount: suggestion.amount.toFixed(2),
+            category: suggestion.category,
+            frequency: suggestion.frequency,
+            tag: suggestion.tag,
+            currency,
+        }));
+}
+
+/** Appends imported expenses, skipping any whose name matches an expense already in the list. */
+export function mergeExpenses(existing: Expense[], imported: Expense[]): Expense[] {
+    const names = new Set(existing.map(expense => expense.name.trim().toLowerCase()));
+    return [...existing, ...imported.filter(expense => !names.has(expense.name.trim().toLowerCase()))];
+}
@@ -0,0 +1,47 @@
+import type { Transaction } from '../../types';
+
+/** Reads a tag's value from an OFX block, whether it is written as SGML (no closing tag) or XML. */
+function readTag(block: string, tag: string): string | null {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : null;
+}
+
+function parseOfxDate(value: string): string | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&apos;/g, "'")
+        .replace(/&quot;/g, '"');
+}
+
+export function isOfx(text: string): boolean {
+    return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+}
+
+/** Parses the statement transactions from an OFX or QFX (Quicken) export. */
+export function parseOfx(text: string): Transaction[] {
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+    const transactions: Transaction[] = [];
+
+    blocks.forEach((block, index) => {
+        const date = parseOfxDate(readTag(block, 'DTPOSTED') ?? '');
+        const amount = parseFloat(readTag(block, 'TRNAMT') ?? '');
+        if (!date || isNaN(amount)) return;
+
+        const name = readTag(block, 'NAME') ?? '';
+        const memo = readTag(block, 'MEMO') ?? '';
+        transactions.push({
+            id: readTag(block, 'FITID') ?? `ofx-${index}`,
+            date,
+            description: decodeEntities(name || memo),
+            amount,
+        });
+    });
+    return transactions;
+}
@@ -0,0 +1,122 @@
+import { DEDUCTION_TYPES } from '../types';
+import type {
+    AmountPeriod,
+    CountryCode,
+    DeductionType,
+    IncomeStream,
+    IncomeType,
+    PayFrequency,
+    PreTaxDeduction,
+    TaxEstimateDeduction,
+    TaxEstimateIncome,
+} from '../types';
+
+/** The income types are named after the US forms; elsewhere they mean employment and self-employment income. */
+export const INCOME_TYPE_LABELS: Record<CountryCode, Record<IncomeType, string>> = {
+    US: { 'w2': 'W-2 salary', '1099': '1099 / self-employed', 'rental': 'Rental', 'other': 'Other' },
+    CA: { 'w2': 'Employment (T4)', '1099': 'Self-employed', 'rental': 'Rental', 'other': 'Other' },
+    GB: { 'w2': 'Employment (PAYE)', '1099': 'Self-employed', 'rental': 'Rental', 'other': 'Other' },
+    DE: { 'w2': 'Employment', '1099': 'Self-employed', 'rental': 'Rental', 'other': 'Other' },
+};
+
+export const PAY_FREQUENCY_LABELS: Record<PayFrequency, string> = {
+    'weekly': 'Weekly',
+    'biweekly': 'Every 2 weeks',
+    'semimonthly': 'Twice a month',
+    'monthly': 'Monthly',
+};
+
+export const AMOUNT_PERIOD_LABELS: Record<AmountPeriod, string> = {
+    monthly: 'per month',
+    annual: 'per year',
+};
+
+/** Outside the US, '401k' stands for workplace pension contributions. */
+export const DEDUCTION_TYPE_LABELS: Record<CountryCode, Record<DeductionType, string>> = {
+    US: { '401k': '401(k) / 403(b)', 'hsa': 'HSA', 'health-premium': 'Health premium', 'other': 'Other pre-tax' },
+    CA: { '401k': 'RRSP / pension plan', 'hsa': 'HSA', 'health-premium': 'Health premium', 'other': 'Other pre-tax' },
+    GB: { '401k': 'Workplace pension', 'hsa': 'HSA', 'health-premium': 'Health premium', 'other': 'Other pre-tax' },
+    DE: { '401k': 'Company pension (bAV)', 'hsa': 'HSA', 'health-premium': 'Health premium', 'other': 'Other pre-tax' },
+};
+
+/** HSAs and cafeteria-plan health premiums only exist in the US. */
+export const DEDUCTION_TYPES_BY_COUNTRY: Record<CountryCode, readonly DeductionType[]> = {
+    US: DEDUCTION_TYPES,
+    CA: ['401k', 'other'],
+    GB: ['401k', 'other'],
+    DE: ['401k', 'other'],
+};
+
+export const PAYCHECKS_PER_MONTH: Record<PayFrequency, number> = {
+    'weekly': 52 / 12,
+    'biweekly': 26 / 12,
+    'semimonthly': 2,
+    'monthly': 1,
+};
+
+/**
+ * Retirement contributions only lower income tax, while HSA payroll contributions and health
+ * premiums paid through a cafeteria plan are also exempt from Social Security and Medicare.
+ */
+export const DEDUCTION_REDUCES_FICA: Record<DeductionType, boolean> = {
+    '401k': false,
+    'hsa': true,
+    'health-premium': true,
+    'other': false,
+};
+
+export function createIncome(overrides: Partial<Omit<IncomeStream, 'id'>> = {}): IncomeStream {
+    return {
+        id: Date.now() + Math.random(),
+        name: '',
+        type: 'w2',
+        payFrequency: 'biweekly',
+        amount: '',
+        amountPeriod: 'monthly',
+        ...overrides,
+    };
+}
+
+export function createDeduction(overrides: Partial<Omit<PreTaxDeduction, 'id'>> = {}): PreTaxDeduction {
+    return {
+        id: Date.now() + Math.random(),
+        name: '',
+        type: '401k',
+        amount: '',
+        amountPeriod: 'monthly',
+        ...overrides,
+    };
+}
+
+const toMonthly = (amount: string, period: AmountPeriod) => {
+    const value = parseFloat(amount);
+    if (!(value > 0)) return 0;
+    return period === 'annual' ? value / 12 : value;
+};
+
+export function toMonthlyIncome(income: IncomeStream): number {
+    return toMonthly(income.amount, income.amountPeriod);
+}
+
+export function toMonthlyDeduction(deduction: PreTaxDeduction): number {
+    return toMonthly(deduction.amount, deduction.amountPeriod);
+}
+
+export function isValidIncome(income: IncomeStream): boolean {
+    return toMonthlyIncome(income) > 0;
+}
+
+export function totalMonthlyIncome(incomes: IncomeStream[]): number {
+    return incomes.reduce((sum, income) => sum + toMonthlyIncome(income), 0);
+}
+
+/** The amounts the AI tax estimate needs, without names that could identify anyone. */
+export function summarizeIncomes(incomes: IncomeStream[]): TaxEstimateIncome[] {
+    return incomes.filter(isValidIncome).map(income => ({ type: income.type, monthlyAmount: toMonthlyIncome(income) }));
+}
+
+export function summarizeDeductions(deductions: PreTaxDeduction[]): TaxEstimateDeduction[] {
+    return deductions
+        .map(deduction => ({ type: deduction.type, monthlyAmount: toMonthlyDeduction(deduction) }))
+        .filter(deduction => deduction.monthlyAmount > 0);
+}
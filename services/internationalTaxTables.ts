@@ -0,0 +1,222 @@
+import type { TaxBracket } from '../types';
+
+/** Canadian and German figures are for the 2025 calendar year; UK figures for the 2025/26 tax year. */
+
+export interface CanadianIncomeTaxTable {
+    name: string;
+    brackets: TaxBracket[];
+    basicPersonalAmount: number;
+    /** Claimed for a spouse or common-law partner without income of their own. */
+    spouseAmount: number;
+    /** Rate non-refundable credits are calculated at. */
+    creditRate: number;
+}
+
+export interface CanadianContributionTable {
+    cppRate: number;
+    cppBasicExemption: number;
+    /** Yearly maximum pensionable earnings. */
+    cppMaxEarnings: number;
+    /** Second additional CPP contributions on earnings between `cppMaxEarnings` and this ceiling. */
+    cpp2Rate: number;
+    cpp2MaxEarnings: number;
+    /** Share of the first-tier CPP contribution that earns a tax credit; the enhanced part is deducted instead. */
+    cppBaseShare: number;
+    eiRate: number;
+    eiMaxInsurableEarnings: number;
+    /** Canada employment amount, a federal credit on employment income. */
+    employmentAmount: number;
+}
+
+export interface UkTaxTable {
+    personalAllowance: number;
+    /** The personal allowance shrinks by one pound for every two of income above this. */
+    allowanceTaperThreshold: number;
+    /** Bands on income above the personal allowance. */
+    brackets: TaxBracket[];
+    /** The bands Scottish taxpayers pay instead of `brackets`. */
+    scottishBrackets: TaxBracket[];
+    /** Personal allowance a spouse can transfer to a basic-rate taxpayer. */
+    marriageAllowance: number;
+    /** Class 1 for employees, Class 4 for the self-employed. */
+    employeeNationalInsurance: TaxBracket[];
+    selfEmployedNationalInsurance: TaxBracket[];
+}
+
+export interface GermanContributionTable {
+    /** Employee shares of the contribution rates. */
+    pensionRate: number;
+    unemploymentRate: number;
+    /** General rate plus half the average additional contribution. */
+    healthRate: number;
+    /** Includes the surcharge for employees without children. */
+    careRate: number;
+    /** Annual contribution ceiling for pension and unemployment insurance. */
+    pensionCeiling: number;
+    /** Annual contribution ceiling for health and care insurance. */
+    healthCeiling: number;
+    /** Full health and care rates paid by the self-employed on voluntary statutory cover. */
+    selfEmployedHealthRate: number;
+    selfEmployedCareRate: number;
+    /** Flat allowance for employment expenses (Werbungskosten-Pauschbetrag). */
+    employmentExpenseAllowance: number;
+    /** Flat allowance for special expenses, per person (Sonderausgaben-Pauschbetrag). */
+    specialExpenseAllowance: number;
+    solidarityRate: number;
+    /** Income tax up to which no solidarity surcharge is due, doubled for joint assessment. */
+    solidarityExemption: number;
+    /** Above the exemption the surcharge phases in at this share of the excess. */
+    solidarityPhaseInRate: number;
+}
+
+export const CANADA_FEDERAL: CanadianIncomeTaxTable = {
+    name: 'Federal',
+    // The lowest rate fell from 15% to 14% on July 1, 2025, which works out to 14.5% for the year.
+    brackets: [
+        { over: 0, rate: 0.145 },
+        { over: 57375, rate: 0.205 },
+        { over: 114750, rate: 0.26 },
+        { over: 177882, rate: 0.29 },
+        { over: 253414, rate: 0.33 },
+    ],
+    basicPersonalAmount: 16129,
+    spouseAmount: 16129,
+    creditRate: 0.145,
+};
+
+export const CANADA_CONTRIBUTIONS: CanadianContributionTable = {
+    cppRate: 0.0595,
+    cppBasicExemption: 3500,
+    cppMaxEarnings: 71300,
+    cpp2Rate: 0.04,
+    cpp2MaxEarnings: 81200,
+    cppBaseShare: 4.95 / 5.95,
+    eiRate: 0.0164,
+    eiMaxInsurableEarnings: 65700,
+    employmentAmount: 1471,
+};
+
+/** Provinces without a table, including Quebec with its own pension plan, are left to the AI estimate. */
+export const PROVINCE_TABLES: Record<string, CanadianIncomeTaxTable> = {
+    ON: {
+        name: 'Ontario',
+        brackets: [
+            { over: 0, rate: 0.0505 },
+            { over: 52886, rate: 0.0915 },
+            { over: 105775, rate: 0.1116 },
+            { over: 150000, rate: 0.1216 },
+            { over: 220000, rate: 0.1316 },
+        ],
+        basicPersonalAmount: 12747,
+        spouseAmount: 10823,
+        creditRate: 0.0505,
+    },
+    BC: {
+        name: 'British Columbia',
+        brackets: [
+            { over: 0, rate: 0.0506 },
+            { over: 49279, rate: 0.077 },
+            { over: 98560, rate: 0.105 },
+            { over: 113158, rate: 0.1229 },
+            { over: 137407, rate: 0.147 },
+            { over: 186306, rate: 0.168 },
+            { over: 259829, rate: 0.205 },
+        ],
+        basicPersonalAmount: 12932,
+        spouseAmount: 11073,
+        creditRate: 0.0506,
+    },
+    AB: {
+        name: 'Alberta',
+        brackets: [
+            { over: 0, rate: 0.08 },
+            { over: 60000, rate: 0.10 },
+            { over: 151234, rate: 0.12 },
+            { over: 181481, rate: 0.13 },
+            { over: 241974, rate: 0.14 },
+            { over: 362961, rate: 0.15 },
+        ],
+        basicPersonalAmount: 22323,
+        spouseAmount: 22323,
+        creditRate: 0.10,
+    },
+};
+
+export const PROVINCE_CODES_BY_NAME: Record<string, string> = {
+    'alberta': 'AB', 'british columbia': 'BC', 'manitoba': 'MB', 'new brunswick': 'NB',
+    'newfoundland and labrador': 'NL', 'newfoundland': 'NL', 'nova scotia': 'NS', 'northwest territories': 'NT',
+    'nunavut': 'NU', 'ontario': 'ON', 'prince edward island': 'PE', 'quebec': 'QC', 'québec': 'QC',
+    'saskatchewan': 'SK', 'yukon': 'YT',
+};
+
+/** Lower-cased city names used when the location doesn't name the province. */
+export const PROVINCE_CODES_BY_CITY: Record<string, string> = {
+    'toronto': 'ON', 'ottawa': 'ON', 'mississauga': 'ON', 'hamilton': 'ON', 'london': 'ON',
+    'vancouver': 'BC', 'victoria': 'BC', 'surrey': 'BC', 'burnaby': 'BC',
+    'calgary': 'AB', 'edmonton': 'AB',
+    'montreal': 'QC', 'montréal': 'QC', 'quebec city': 'QC', 'winnipeg': 'MB', 'halifax': 'NS', 'regina': 'SK', 'saskatoon': 'SK',
+};
+
+export const UK_TAX: UkTaxTable = {
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    brackets: [
+        { over: 0, rate: 0.20 },
+        { over: 37700, rate: 0.40 },
+        { over: 125140, rate: 0.45 },
+    ],
+    scottishBrackets: [
+        { over: 0, rate: 0.19 },
+        { over: 2827, rate: 0.20 },
+        { over: 14921, rate: 0.21 },
+        { over: 31092, rate: 0.42 },
+        { over: 62430, rate: 0.45 },
+        { over: 125140, rate: 0.48 },
+    ],
+    marriageAllowance: 1260,
+    employeeNationalInsurance: [
+        { over: 0, rate: 0 },
+        { over: 12570, rate: 0.08 },
+        { over: 50270, rate: 0.02 },
+    ],
+    selfEmployedNationalInsurance: [
+        { over: 0, rate: 0 },
+        { over: 12570, rate: 0.06 },
+        { over: 50270, rate: 0.02 },
+    ],
+};
+
+/** Locations whose residents pay Scottish income tax. */
+export const SCOTTISH_LOCATIONS = ['scotland', 'edinburgh', 'glasgow', 'aberdeen', 'dundee', 'inverness', 'stirling', 'perth'];
+
+export const GERMAN_CONTRIBUTIONS: GermanContributionTable = {
+    pensionRate: 0.093,
+    unemploymentRate: 0.013,
+    healthRate: 0.0855,
+    careRate: 0.024,
+    pensionCeiling: 96600,
+    healthCeiling: 66150,
+    selfEmployedHealthRate: 0.171,
+    selfEmployedCareRate: 0.042,
+    employmentExpenseAllowance: 1230,
+    specialExpenseAllowance: 36,
+    solidarityRate: 0.055,
+    solidarityExemption: 19950,
+    solidarityPhaseInRate: 0.119,
+};
+
+/** Income tax on taxable income for a single person, using the 2025 formula from § 32a EStG. */
+export function germanIncomeTax(taxableIncome: number): number {
+    const x = Math.floor(taxableIncome);
+    if (x <= 12096) return 0;
+    if (x <= 17443) {
+        const y = (x - 12096) / 10000;
+        return Math.floor((932.30 * y + 1400) * y);
+    }
+    if (x <= 68480) {
+        const z = (x - 17443) / 10000;
+        return Math.floor((176.64 * z + 2397) * z + 1015.13);
+    }
+    if (x <= 277825) return Math.floor(0.42 * x - 10911.92);
+    return Math.floor(0.45 * x - 19246.67);
+}
@@ -0,0 +1,89 @@
+import { DEDUCTION_TYPES_BY_COUNTRY } from './income';
+import { FILING_STATUSES_BY_COUNTRY } from '../types';
+import type { BudgetInputs, CountryCode, CurrencyCode, FilingStatus } from '../types';
+
+export interface CountrySettings {
+    name: string;
+    currency: CurrencyCode;
+    /** BCP 47 locale used for number formatting and parsing. */
+    locale: string;
+    locationPlaceholder: string;
+}
+
+export const COUNTRY_SETTINGS: Record<CountryCode, CountrySettings> = {
+    US: { name: 'United States', currency: 'USD', locale: 'en-US', locationPlaceholder: 'e.g., San Francisco, CA' },
+    CA: { name: 'Canada', currency: 'CAD', locale: 'en-CA', locationPlaceholder: 'e.g., Toronto, ON' },
+    GB: { name: 'United Kingdom', currency: 'GBP', locale: 'en-GB', locationPlaceholder: 'e.g., Manchester' },
+    DE: { name: 'Germany', currency: 'EUR', locale: 'de-DE', locationPlaceholder: 'e.g., Berlin' },
+};
+
+export function isFilingStatusFor(country: CountryCode, status: FilingStatus): boolean {
+    return (FILING_STATUSES_BY_COUNTRY[country] as readonly FilingStatus[]).includes(status);
+}
+
+/** Formats in the country's own currency unless another is given, e.g. for a snapshot taken before the budget moved country. */
+export function createCurrencyFormatter(country: CountryCode, currency: CurrencyCode = COUNTRY_SETTINGS[country].currency): (value: number) => string {
+    const { locale } = COUNTRY_SETTINGS[country];
+    const formatter = new Intl.NumberFormat(locale, { style: 'currency', currency, minimumFractionDigits: 2 });
+    return (value: number) => formatter.format(value);
+}
+
+export function getCurrencySymbol(country: CountryCode): string {
+    const { locale, currency } = COUNTRY_SETTINGS[country];
+    return new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+        .formatToParts(0)
+        .find(part => part.type === 'currency')?.value ?? currency;
+}
+
+const separators = (locale: string) => {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    return {
+        group: parts.find(part => part.type === 'group')?.value ?? ',',
+        decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+    };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turns an amount typed in the locale's format, such as "1.234,56" in German, into the canonical
+ * form amounts are stored in ("1234.56"). A group separator not followed by exactly three digits
+ * is read as a decimal point, so "12.5" still means twelve and a half in German. Returns '' for
+ * empty input and null for input that isn't a number.
+ */
+export function parseAmountInput(text: string, locale: string): string | null {
+    const { group, decimal } = separators(locale);
+    const compact = text.replace(/\s/g, '');
+    if (compact === '') return '';
+
+    let normalized: string;
+    if (compact.includes(decimal)) {
+        normalized = compact.split(group).join('').replace(decimal, '.');
+    } else if (new RegExp(`^-?\\d{1,3}(${escapeRegExp(group)}\\d{3})+$`).test(compact)) {
+        normalized = compact.split(group).join('');
+    } else {
+        normalized = compact.replace(group, '.');
+    }
+    return /^-?(\d+\.?\d*|\.\d+)$/.test(normalized) ? normalized : null;
+}
+
+/** Shows a stored amount with the locale's decimal separator, without grouping so it stays easy to edit. */
+export function formatAmountInput(value: string, locale: string): string {
+    return value.replace('.', separators(locale).decimal);
+}
+
+/**
+ * Moves the inputs to another country. Amounts are kept as typed and not converted, since they
+ * are usually re-entered in the new currency; only the currency they are labelled with changes.
+ */
+export function changeCountry(inputs: BudgetInputs, country: CountryCode): BudgetInputs {
+    const { currency } = COUNTRY_SETTINGS[country];
+    const deductionTypes = DEDUCTION_TYPES_BY_COUNTRY[country];
+    return {
+        ...inputs,
+        country,
+        filingStatus: isFilingStatusFor(country, inputs.filingStatus) ? inputs.filingStatus : FILING_STATUSES_BY_COUNTRY[country][0],
+        deductions: inputs.deductions.map(deduction => deductionTypes.includes(deduction.type) ? deduction : { ...deduction, type: 'other' }),
+        expenses: inputs.expenses.map(expense => ({ ...expense, currency })),
+    };
+}
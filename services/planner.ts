@@ -0,0 +1,270 @@
+import type { Debt, PayoffStrategy, PlanSummary, SavingsGoal } from '../types';
+
+/** Projections stop after this many months; anything not reached by then is reported as never. */
+export const MAX_PLAN_MONTHS = 360;
+
+export const PAYOFF_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+    avalanche: 'Avalanche (highest APR first)',
+    snowball: 'Snowball (smallest balance first)',
+};
+
+export interface GoalProjection {
+    goal: SavingsGoal;
+    /** Suggested monthly contribution to hit the target date, or null when the goal has no deadline. */
+    monthlyNeeded: number | null;
+    /** Month the goal is reached, in `YYYY-MM` form, or null if not within MAX_PLAN_MONTHS. */
+    reachedMonth: string | null;
+    onTrack: boolean;
+}
+
+export interface DebtProjection {
+    debt: Debt;
+    paidOffMonth: string | null;
+    interestPaid: number;
+}
+
+export interface PlanMonth {
+    month: string;
+    debtBalance: number;
+    saved: number;
+}
+
+export interface PayoffPlan {
+    strategy: PayoffStrategy;
+    goals: GoalProjection[];
+    debts: DebtProjection[];
+    totalInterest: number;
+    debtFreeMonth: string | null;
+    /** One entry per projected month, up to the month everything is reached or paid off. */
+    months: PlanMonth[];
+}
+
+interface DebtState {
+    debt: Debt;
+    balance: number;
+    monthlyRate: number;
+    minimumPayment: number;
+    interestPaid: number;
+    paidOffMonth: string | null;
+}
+
+interface GoalState {
+    goal: SavingsGoal;
+    target: number;
+    saved: number;
+    reachedMonth: string | null;
+}
+
+const amount = (value: string) => {
+    const parsed = parseFloat(value);
+    return parsed > 0 ? parsed : 0;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function createGoal(overrides: Partial<Omit<SavingsGoal, 'id'>> = {}): SavingsGoal {
+    return {
+        id: Date.now() + Math.random(),
+        name: '',
+        targetAmount: '',
+        currentAmount: '',
+        targetDate: '',
+        ...overrides,
+    };
+}
+
+export function createDebt(overrides: Partial<Omit<Debt, 'id'>> = {}): Debt {
+    return {
+        id: Date.now() + Math.random(),
+        name: '',
+        balance: '',
+        apr: '',
+        minimumPayment: '',
+        ...overrides,
+    };
+}
+
+export function isValidGoal(goal: SavingsGoal): boolean {
+    return amount(goal.targetAmount) > 0;
+}
+
+export function isValidDebt(debt: Debt): boolean {
+    return amount(debt.balance) > 0;
+}
+
+export function addMonths(month: string, count: number): string {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const total = year * 12 + monthNumber - 1 + count;
+    return `${Math.floor(total / 12)}-${String(total % 12 + 1).padStart(2, '0')}`;
+}
+
+/** Months from `from` to `to`, counting both, so a goal due this month has one month left. */
+function monthsUntil(from: string, to: string): number {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+}
+
+function orderDebts(debts: DebtState[], strategy: PayoffStrategy): DebtState[] {
+    return [...debts].sort((a, b) => strategy === 'avalanche'
+        ? b.monthlyRate - a.monthlyRate || a.balance - b.balance
+        : a.balance - b.balance || b.monthlyRate - a.monthlyRate);
+}
+
+/** Goals with a deadline come first, earliest deadline first. */
+function orderGoals(goals: GoalState[]): GoalState[] {
+    return [...goals].sort((a, b) => {
+        if (!a.goal.targetDate || !b.goal.targetDate) return a.goal.targetDate ? -1 : b.goal.targetDate ? 1 : 0;
+        return a.goal.targetDate.localeCompare(b.goal.targetDate);
+    });
+}
+
+/**
+ * Projects the goals and debts month by month. Minimum payments are assumed to be in the budget
+ * already, so only `monthlySurplus` is allocated: first whatever dated goals need to stay on
+ * schedule, then extra debt payments in strategy order, then the rest towards the goals. The
+ * minimum payment of each paid-off debt is rolled into the surplus from then on.
+ */
+export function projectPlan(
+    goals: SavingsGoal[],
+    debts: Debt[],
+    monthlySurplus: number,
+    strategy: PayoffStrategy,
+    startMonth: string
+): PayoffPlan {
+    const debtStates = orderDebts(debts.filter(isValidDebt).map(debt => ({
+        debt,
+        balance: amount(debt.balance),
+        monthlyRate: amount(debt.apr) / 100 / 12,
+        minimumPayment: amount(debt.minimumPayment),
+        interestPaid: 0,
+        paidOffMonth: null,
+    })), strategy);
+    const goalStates = orderGoals(goals.filter(isValidGoal).map(goal => {
+        const target = amount(goal.targetAmount);
+        const saved = Math.min(amount(goal.currentAmount), target);
+        return { goal, target, saved, reachedMonth: saved >= target ? startMonth : null };
+    }));
+
+    const months: PlanMonth[] = [];
+    const isDone = () => debtStates.every(d => d.paidOffMonth) && goalStates.every(g => g.reachedMonth);
+
+    for (let index = 0; index < MAX_PLAN_MONTHS && !isDone(); index++) {
+        const month = addMonths(startMonth, index);
+        let available = Math.max(0, monthlySurplus);
+
+        for (const state of debtStates) {
+            if (state.paidOffMonth) {
+                available += state.minimumPayment;
+                continue;
+            }
+            const interest = state.balance * state.monthlyRate;
+            state.interestPaid += interest;
+            state.balance += interest;
+            const payment = Math.min(state.minimumPayment, state.balance);
+            state.balance -= payment;
+            available += state.minimumPayment - payment;
+        }
+
+        const contribute = (state: GoalState, limit: number) => {
+            const contribution = Math.min(available, limit, state.target - state.saved);
+            if (contribution <= 0) return;
+            state.saved += contribution;
+            available -= contribution;
+        };
+
+        for (const state of goalStates) {
+            if (state.reachedMonth || !state.goal.targetDate) continue;
+            const monthsLeft = Math.max(1, monthsUntil(month, state.goal.targetDate));
+            contribute(state, (state.target - state.saved) / monthsLeft);
+        }
+        for (const state of debtStates) {
+            if (state.paidOffMonth) continue;
+            const payment = Math.min(available, state.balance);
+            state.balance -= payment;
+            available -= payment;
+        }
+        for (const state of goalStates) {
+            if (!state.reachedMonth) contribute(state, Infinity);
+        }
+
+        for (const state of debtStates) {
+            if (!state.paidOffMonth && state.balance < 0.005) {
+                state.balance = 0;
+                state.paidOffMonth = month;
+            }
+        }
+        for (const state of goalStates) {
+            if (!state.reachedMonth && state.target - state.saved < 0.005) state.reachedMonth = month;
+        }
+
+        months.push({
+            month,
+            debtBalance: round(debtStates.reduce((sum, d) => sum + d.balance, 0)),
+            saved: round(goalStates.reduce((sum, g) => sum + g.saved, 0)),
+        });
+    }
+
+    const goalProjections = goalStates.map(({ goal, target, reachedMonth }) => {
+        const remaining = target - Math.min(amount(goal.currentAmount), target);
+        return {
+            goal,
+            monthlyNeeded: goal.targetDate ? round(remaining / Math.max(1, monthsUntil(startMonth, goal.targetDate))) : null,
+            reachedMonth,
+            onTrack: reachedMonth !== null && (!goal.targetDate || reachedMonth <= goal.targetDate),
+        };
+    });
+    const debtProjections = debtStates.map(({ debt, paidOffMonth, interestPaid }) => ({ debt, paidOffMonth, interestPaid: round(interestPaid) }));
+
+    return {
+        strategy,
+        goals: goalProjections,
+        debts: debtProjections,
+        totalInterest: round(debtProjections.reduce((sum, d) => sum + d.interestPaid, 0)),
+        debtFreeMonth: debtStates.every(d => d.paidOffMonth)
+            ? debtStates.reduce((latest, d) => d.paidOffMonth > latest ? d.paidOffMonth : latest, startMonth)
+            : null,
+        months,
+    };
+}
+
+export function comparePayoffStrategies(
+    goals: SavingsGoal[],
+    debts: Debt[],
+    monthlySurplus: number,
+    startMonth: string
+): Record<PayoffStrategy, PayoffPlan> {
+    return {
+        avalanche: projectPlan(goals, debts, monthlySurplus, 'avalanche', startMonth),
+        snowball: projectPlan(goals, debts, monthlySurplus, 'snowball', startMonth),
+    };
+}
+
+/** The chosen plan in the shape sent to the AI, or null when there is nothing to plan. */
+export function summarizePlan(plans: Record<PayoffStrategy, PayoffPlan>, strategy: PayoffStrategy): PlanSummary | null {
+    const plan = plans[strategy];
+    if (plan.goals.length === 0 && plan.debts.length === 0) return null;
+    const alternative = plans[strategy === 'avalanche' ? 'snowball' : 'avalanche'];
+    return {
+        strategy,
+        goals: plan.goals.map(({ goal, reachedMonth, onTrack }) => ({
+            name: goal.name || 'Savings goal',
+            targetAmount: amount(goal.targetAmount),
+            currentAmount: amount(goal.currentAmount),
+            targetDate: goal.targetDate || null,
+            projectedDate: reachedMonth,
+            onTrack,
+        })),
+        debts: plan.debts.map(({ debt, paidOffMonth, interestPaid }) => ({
+            name: debt.name || 'Debt',
+            balance: amount(debt.balance),
+            apr: amount(debt.apr),
+            minimumPayment: amount(debt.minimumPayment),
+            projectedPayoffDate: paidOffMonth,
+            interestPaid,
+        })),
+        totalInterest: plan.totalInterest,
+        alternativeTotalInterest: alternative.totalInterest,
+        debtFreeDate: plan.debtFreeMonth,
+    };
+}
@@ -0,0 +1,57 @@
+export interface RetryOptions {
+    /** Total number of attempts, including the first one. */
+    attempts?: number;
+    baseDelayMs?: number;
+    signal?: AbortSignal;
+    shouldRetry: (error: unknown) => boolean;
+    /** A delay requested by the server, e.g. through Retry-After, used instead of the backoff. */
+    getRetryAfterMs?: (error: unknown) => number | undefined;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+
+/** Rate limiting and server-side failures are worth retrying; other client errors are not. */
+export function isTransientStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/** Exponential backoff with jitter: roughly 1x, 2x, 4x... the base delay. */
+export function getBackoffDelay(attempt: number, baseDelayMs: number = DEFAULT_RETRY_BASE_DELAY_MS): number {
+    return baseDelayMs * 2 ** (attempt - 1) + Math.random() * baseDelayMs;
+}
+
+/** Waits for the given time, rejecting early with the signal's reason if it is aborted. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+    const attempts = options.attempts ?? DEFAULT_RETRY_ATTEMPTS;
+    for (let attempt = 1; ; attempt++) {
+        options.signal?.throwIfAborted();
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            if (attempt >= attempts || options.signal?.aborted || !options.shouldRetry(error)) throw error;
+            const delayMs = options.getRetryAfterMs?.(error) ?? getBackoffDelay(attempt, options.baseDelayMs);
+            options.onRetry?.(error, attempt, delayMs);
+            await sleep(delayMs, options.signal);
+        }
+    }
+}
@@ -0,0 +1,76 @@
+import { isValidExpense, summarizeByCategory, toMonthlyAmount } from './expenses';
+import { isValidIncome } from './income';
+import { COUNTRY_SETTINGS } from './locale';
+import { estimateTaxes } from './taxEngine';
+import type { BudgetInputs, CategoryTotal, CurrencyCode, Scenario } from '../types';
+
+export const MAX_SCENARIOS = 4;
+
+export interface ScenarioResult {
+    currency: CurrencyCode;
+    grossIncome: number;
+    netIncome: number;
+    totalTax: number;
+    totalExpenses: number;
+    remainingBalance: number;
+    categoryTotals: CategoryTotal[];
+    /** False when the location's regional taxes are not in the local tables and so not included. */
+    regionCovered: boolean;
+}
+
+export interface ScenarioDeltas {
+    netIncome: number;
+    totalTax: number;
+    remainingBalance: number;
+}
+
+/** Copies the inputs into a new scenario. Every row gets a fresh id so edits never touch the original. */
+export function createScenario(name: string, inputs: BudgetInputs): Scenario {
+    return {
+        id: `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        inputs: {
+            ...inputs,
+            incomes: inputs.incomes.map((income, index) => ({ ...income, id: Date.now() + index + Math.random() })),
+            deductions: inputs.deductions.map((deduction, index) => ({ ...deduction, id: Date.now() + index + Math.random() })),
+            expenses: inputs.expenses.map((expense, index) => ({ ...expense, id: Date.now() + index + Math.random() })),
+            goals: inputs.goals.map((goal, index) => ({ ...goal, id: Date.now() + index + Math.random() })),
+            debts: inputs.debts.map((debt, index) => ({ ...debt, id: Date.now() + index + Math.random() })),
+        },
+    };
+}
+
+/** Evaluates a scenario with the local tax engine, or returns null while its income or location is missing. */
+export function evaluateScenario(inputs: BudgetInputs): ScenarioResult | null {
+    if (!inputs.incomes.some(isValidIncome) || inputs.location.trim() === '') return null;
+
+    const breakdown = estimateTaxes({
+        country: inputs.country,
+        incomes: inputs.incomes,
+        deductions: inputs.deductions,
+        location: inputs.location,
+        filingStatus: inputs.filingStatus,
+    });
+    const validExpenses = inputs.expenses.filter(isValidExpense);
+    const totalExpenses = validExpenses.reduce((sum, expense) => sum + toMonthlyAmount(expense), 0);
+    return {
+        currency: COUNTRY_SETTINGS[inputs.country].currency,
+        grossIncome: breakdown.grossIncome,
+        netIncome: breakdown.netIncome,
+        totalTax: breakdown.totalTax,
+        totalExpenses,
+        remainingBalance: breakdown.netIncome - totalExpenses,
+        categoryTotals: summarizeByCategory(validExpenses),
+        regionCovered: breakdown.regionCovered,
+    };
+}
+
+/** Returns null when the two are in different currencies, since amounts are never converted. */
+export function getScenarioDeltas(result: ScenarioResult, baseline: ScenarioResult): ScenarioDeltas | null {
+    if (result.currency !== baseline.currency) return null;
+    return {
+        netIncome: result.netIncome - baseline.netIncome,
+        totalTax: result.totalTax - baseline.totalTax,
+        remainingBalance: result.remainingBalance - baseline.remainingBalance,
+    };
+}
@@ -0,0 +1,367 @@
+import { createExpense } from './expenses';
+import { createDeduction, createIncome } from './income';
+import { COUNTRY_SETTINGS, isFilingStatusFor } from './locale';
+import { createDebt, createGoal } from './planner';
+import { AMOUNT_PERIODS, COUNTRIES, CURRENCIES, DEDUCTION_TYPES, EXPENSE_CATEGORIES, EXPENSE_EDIT_ACTIONS, EXPENSE_FREQUENCIES, EXPENSE_TAGS, FILING_STATUSES_BY_COUNTRY, INCOME_TYPES, PAY_FREQUENCIES, PAYOFF_STRATEGIES } from '../types';
+import type { BudgetInputs, BudgetProfile, CategoryTotal, ChatMessage, CurrencyCode, Debt, Expense, ExpenseEdit, FilingStatus, IncomeStream, MonthlySnapshot, PreTaxDeduction, SavingsGoal, Scenario } from '../types';
+
+export const STORAGE_KEY = 'ai-budget-analyzer';
+export const SCHEMA_VERSION = 9;
+
+export interface StoredBudgets {
+    version: number;
+    activeProfileId: string;
+    profiles: BudgetProfile[];
+}
+
+type StoredRecord = Record<string, unknown>;
+
+/** Stored data is untrusted: anything that isn't a plain object is read as an empty one. */
+function asRecord(value: unknown): StoredRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as StoredRecord : {};
+}
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const isOneOf = <T extends string>(allowed: readonly T[], value: unknown): value is T => allowed.includes(value as T);
+
+function mapProfiles(data: StoredRecord, upgrade: (profile: StoredRecord) => StoredRecord): StoredRecord {
+    return { ...data, profiles: asArray(data.profiles).map(profile => upgrade(asRecord(profile))) };
+}
+
+/** Applies `upgrade` to the inputs of every profile and of every scenario in it. */
+function mapAllInputs(data: StoredRecord, upgrade: (inputs: StoredRecord) => StoredRecord): StoredRecord {
+    return mapProfiles(data, profile => ({
+        ...profile,
+        inputs: upgrade(asRecord(profile.inputs)),
+        scenarios: asArray(profile.scenarios).map(scenario => {
+            const record = asRecord(scenario);
+            return { ...record, inputs: upgrade(asRecord(record.inputs)) };
+        }),
+    }));
+}
+
+/**
+ * Each entry upgrades stored data from the version it is keyed by to the next one.
+ * Add an entry here and bump SCHEMA_VERSION whenever the stored shape changes.
+ */
+const MIGRATIONS: Record<number, (data: StoredRecord) => StoredRecord> = {
+    // v2: snapshots keep the analysis summary plus a health score instead of free-text analysis.
+    1: data => mapProfiles(data, profile => ({
+        ...profile,
+        history: asArray(profile.history).map(snapshot => ({ ...asRecord(snapshot), healthScore: null })),
+    })),
+    // v3: profiles gain what-if scenarios.
+    2: data => mapProfiles(data, profile => ({ ...profile, scenarios: [] })),
+    // v4: the single gross income becomes a list of income streams, plus pre-tax deductions.
+    3: data => mapAllInputs(data, ({ grossIncome, ...rest }) => {
+        const incomes = typeof grossIncome === 'string' && grossIncome !== ''
+            ? [createIncome({ name: 'Salary', amount: grossIncome, payFrequency: 'monthly' })]
+            : undefined;
+        return { ...rest, incomes, deductions: [] };
+    }),
+    // v5: budgets gain savings goals and debts for the payoff planner.
+    4: data => mapAllInputs(data, inputs => ({ ...inputs, goals: [], debts: [], payoffStrategy: 'avalanche' })),
+    // v6: profiles keep their follow-up chat.
+    5: data => mapProfiles(data, profile => ({ ...profile, chat: [] })),
+    // v7: budgets gain a country, and expenses and chat edits the currency their amounts are in.
+    6: data => mapProfiles(
+        mapAllInputs(data, inputs => ({
+            ...inputs,
+            country: 'US',
+            expenses: asArray(inputs.expenses).map(expense => ({ ...asRecord(expense), currency: 'USD' })),
+        })),
+        profile => ({
+            ...profile,
+            chat: asArray(profile.chat).map(message => {
+                const record = asRecord(message);
+                return { ...record, edits: asArray(record.edits).map(edit => ({ ...asRecord(edit), currency: 'USD' })) };
+            }),
+        })
+    ),
+    // v8: budgets can opt in to reusing the last AI analysis when nothing has changed.
+    7: data => mapAllInputs(data, inputs => ({ ...inputs, reuseAnalysis: false })),
+    // v9: snapshots record their currency. Older ones are taken to be in the budget's current currency.
+    8: data => mapProfiles(data, profile => {
+        const { country } = asRecord(profile.inputs);
+        const currency = isOneOf(COUNTRIES, country) ? COUNTRY_SETTINGS[country].currency : 'USD';
+        return { ...profile, history: asArray(profile.history).map(snapshot => ({ ...asRecord(snapshot), currency })) };
+    }),
+};
+
+export function createDefaultInputs(): BudgetInputs {
+    return {
+        incomes: [createIncome({ name: 'Salary' })],
+        deductions: [],
+        country: 'US',
+        filingStatus: 'Single',
+        location: '',
+        expenses: [createExpense({ name: 'Rent/Mortgage', category: 'housing', tag: 'fixed' })],
+        goals: [],
+        debts: [],
+        payoffStrategy: 'avalanche',
+        useAiTaxCheck: true,
+        reuseAnalysis: false,
+    };
+}
+
+export function createProfile(name: string, inputs: BudgetInputs = createDefaultInputs()): BudgetProfile {
+    return {
+        id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        updatedAt: new Date().toISOString(),
+        inputs,
+        history: [],
+        scenarios: [],
+        chat: [],
+    };
+}
+
+function createDefaultStore(): StoredBudgets {
+    const profile = createProfile('My budget');
+    return { version: SCHEMA_VERSION, activeProfileId: profile.id, profiles: [profile] };
+}
+
+const readText = (value: unknown) => typeof value === 'string' ? value : '';
+
+const readAmount = (value: unknown) => typeof value === 'string' ? value : String(value ?? '');
+
+const readId = (value: unknown, fallback: () => number) => typeof value === 'number' ? value : fallback();
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isMonthKey = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}$/.test(value);
+
+/** Fills in fields that are missing or invalid so a partially written record can still be loaded. */
+function normalizeExpense(value: unknown): Expense {
+    const raw = asRecord(value);
+    const defaults = createExpense();
+    return {
+        id: readId(raw.id, () => defaults.id),
+        name: readText(raw.name),
+        amount: readAmount(raw.amount),
+        category: isOneOf(EXPENSE_CATEGORIES, raw.category) ? raw.category : defaults.category,
+        frequency: isOneOf(EXPENSE_FREQUENCIES, raw.frequency) ? raw.frequency : defaults.frequency,
+        tag: isOneOf(EXPENSE_TAGS, raw.tag) ? raw.tag : defaults.tag,
+        currency: isOneOf(CURRENCIES, raw.currency) ? raw.currency : defaults.currency,
+    };
+}
+
+function normalizeIncome(value: unknown): IncomeStream {
+    const raw = asRecord(value);
+    const defaults = createIncome();
+    return {
+        id: readId(raw.id, () => defaults.id),
+        name: readText(raw.name),
+        type: isOneOf(INCOME_TYPES, raw.type) ? raw.type : defaults.type,
+        payFrequency: isOneOf(PAY_FREQUENCIES, raw.payFrequency) ? raw.payFrequency : defaults.payFrequency,
+        amount: readAmount(raw.amount),
+        amountPeriod: isOneOf(AMOUNT_PERIODS, raw.amountPeriod) ? raw.amountPeriod : defaults.amountPeriod,
+    };
+}
+
+function normalizeDeduction(value: unknown): PreTaxDeduction {
+    const raw = asRecord(value);
+    const defaults = createDeduction();
+    return {
+        id: readId(raw.id, () => defaults.id),
+        name: readText(raw.name),
+        type: isOneOf(DEDUCTION_TYPES, raw.type) ? raw.type : defaults.type,
+        amount: readAmount(raw.amount),
+        amountPeriod: isOneOf(AMOUNT_PERIODS, raw.amountPeriod) ? raw.amountPeriod : defaults.amountPeriod,
+    };
+}
+
+function normalizeGoal(value: unknown): SavingsGoal {
+    const raw = asRecord(value);
+    return {
+        id: readId(raw.id, () => createGoal().id),
+        name: readText(raw.name),
+        targetAmount: readAmount(raw.targetAmount),
+        currentAmount: readAmount(raw.currentAmount),
+        targetDate: isMonthKey(raw.targetDate) ? raw.targetDate : '',
+    };
+}
+
+function normalizeDebt(value: unknown): Debt {
+    const raw = asRecord(value);
+    return {
+        id: readId(raw.id, () => createDebt().id),
+        name: readText(raw.name),
+        balance: readAmount(raw.balance),
+        apr: readAmount(raw.apr),
+        minimumPayment: readAmount(raw.minimumPayment),
+    };
+}
+
+function normalizeInputs(value: unknown): BudgetInputs {
+    const inputs = asRecord(value);
+    const defaults = createDefaultInputs();
+    const country = isOneOf(COUNTRIES, inputs.country) ? inputs.country : defaults.country;
+    return {
+        incomes: Array.isArray(inputs.incomes) ? inputs.incomes.map(normalizeIncome) : defaults.incomes,
+        deductions: Array.isArray(inputs.deductions) ? inputs.deductions.map(normalizeDeduction) : defaults.deductions,
+        country,
+        filingStatus: typeof inputs.filingStatus === 'string' && isFilingStatusFor(country, inputs.filingStatus as FilingStatus)
+            ? inputs.filingStatus as FilingStatus
+            : FILING_STATUSES_BY_COUNTRY[country][0],
+        location: typeof inputs.location === 'string' ? inputs.location : defaults.location,
+        expenses: Array.isArray(inputs.expenses) ? inputs.expenses.map(normalizeExpense) : defaults.expenses,
+        goals: Array.isArray(inputs.goals) ? inputs.goals.map(normalizeGoal) : defaults.goals,
+        debts: Array.isArray(inputs.debts) ? inputs.debts.map(normalizeDebt) : defaults.debts,
+        payoffStrategy: isOneOf(PAYOFF_STRATEGIES, inputs.payoffStrategy) ? inputs.payoffStrategy : defaults.payoffStrategy,
+        useAiTaxCheck: typeof inputs.useAiTaxCheck === 'boolean' ? inputs.useAiTaxCheck : defaults.useAiTaxCheck,
+        reuseAnalysis: typeof inputs.reuseAnalysis === 'boolean' ? inputs.reuseAnalysis : defaults.reuseAnalysis,
+    };
+}
+
+function normalizeScenario(value: unknown, index: number): Scenario {
+    const raw = asRecord(value);
+    return {
+        id: typeof raw.id === 'string' ? raw.id : `scenario-${index}`,
+        name: typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name : `Scenario ${index + 1}`,
+        inputs: normalizeInputs(raw.inputs),
+    };
+}
+
+/** Returns null for an edit that couldn't be shown or applied, e.g. one without a valid amount or frequency. */
+function normalizeExpenseEdit(value: unknown): ExpenseEdit | null {
+    const raw = asRecord(value);
+    if (!isOneOf(EXPENSE_EDIT_ACTIONS, raw.action) || !isFiniteNumber(raw.amount)) return null;
+    if (!isOneOf(EXPENSE_CATEGORIES, raw.category) || !isOneOf(EXPENSE_FREQUENCIES, raw.frequency) || !isOneOf(CURRENCIES, raw.currency)) return null;
+    if (raw.action !== 'add' && typeof raw.expenseId !== 'number') return null;
+    return {
+        action: raw.action,
+        expenseId: typeof raw.expenseId === 'number' ? raw.expenseId : null,
+        name: readText(raw.name),
+        amount: raw.amount,
+        category: raw.category,
+        frequency: raw.frequency,
+        currency: raw.currency,
+        reason: readText(raw.reason),
+    };
+}
+
+function normalizeChatMessage(value: unknown, index: number): ChatMessage {
+    const raw = asRecord(value);
+    // Applied edits are indexes into the stored list, so they are remapped past any dropped edit.
+    const stored = asArray(raw.edits).map(normalizeExpenseEdit);
+    const kept = stored.flatMap((edit, i) => edit ? [i] : []);
+    const applied = asArray(raw.appliedEdits);
+    return {
+        id: typeof raw.id === 'string' ? raw.id : `message-${index}`,
+        role: raw.role === 'assistant' ? 'assistant' : 'user',
+        text: readText(raw.text),
+        createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date().toISOString(),
+        edits: kept.map(i => stored[i]),
+        appliedEdits: kept.flatMap((storedIndex, i) => applied.includes(storedIndex) ? [i] : []),
+    };
+}
+
+function normalizeCategoryTotal(value: unknown): CategoryTotal | null {
+    const raw = asRecord(value);
+    if (!isOneOf(EXPENSE_CATEGORIES, raw.category) || !isFiniteNumber(raw.monthlyTotal)) return null;
+    return { category: raw.category, monthlyTotal: raw.monthlyTotal, share: isFiniteNumber(raw.share) ? raw.share : 0 };
+}
+
+/** Returns null for a snapshot without a month or with missing totals, which the history and charts can't show. */
+function normalizeSnapshot(value: unknown, defaultCurrency: CurrencyCode): MonthlySnapshot | null {
+    const raw = asRecord(value);
+    const { month, grossIncome, netIncome, totalTax, totalExpenses, remainingBalance } = raw;
+    if (!isMonthKey(month)) return null;
+    if (![grossIncome, netIncome, totalTax, totalExpenses, remainingBalance].every(isFiniteNumber)) return null;
+    return {
+        month,
+        savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : `${month}-01T00:00:00.000Z`,
+        currency: isOneOf(CURRENCIES, raw.currency) ? raw.currency : defaultCurrency,
+        grossIncome: grossIncome as number,
+        netIncome: netIncome as number,
+        totalTax: totalTax as number,
+        totalExpenses: totalExpenses as number,
+        remainingBalance: remainingBalance as number,
+        categoryTotals: asArray(raw.categoryTotals).map(normalizeCategoryTotal).filter(total => total !== null),
+        analysis: readText(raw.analysis),
+        healthScore: isFiniteNumber(raw.healthScore) ? raw.healthScore : null,
+    };
+}
+
+function normalizeProfile(value: unknown): BudgetProfile {
+    const raw = asRecord(value);
+    const inputs = normalizeInputs(raw.inputs);
+    return {
+        id: typeof raw.id === 'string' ? raw.id : createProfile('').id,
+        name: typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name : 'Untitled budget',
+        updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+        inputs,
+        // One snapshot per month, oldest first, as recordSnapshot keeps them.
+        history: asArray(raw.history)
+            .map(snapshot => normalizeSnapshot(snapshot, COUNTRY_SETTINGS[inputs.country].currency))
+            .filter(snapshot => snapshot !== null)
+            .filter((snapshot, i, all) => all.findIndex(s => s.month === snapshot.month) === i)
+            .sort((a, b) => a.month.localeCompare(b.month)),
+        scenarios: asArray(raw.scenarios).map(normalizeScenario),
+        chat: asArray(raw.chat).map(normalizeChatMessage),
+    };
+}
+
+export function migrateStore(raw: unknown): StoredBudgets {
+    let data = asRecord(raw);
+    let version = data.version === undefined ? 1 : data.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error(`Saved budgets have an unsupported schema version (${JSON.stringify(version)}).`);
+    }
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`Saved budgets use schema version ${version}, which is newer than this app supports (${SCHEMA_VERSION}).`);
+    }
+    while (version < SCHEMA_VERSION) {
+        data = MIGRATIONS[version](data);
+        version++;
+    }
+
+    const profiles = asArray(data.profiles).map(normalizeProfile);
+    if (profiles.length === 0) {
+        return createDefaultStore();
+    }
+    const activeProfileId = profiles.find(p => p.id === data.activeProfileId)?.id ?? profiles[0].id;
+    return { version: SCHEMA_VERSION, activeProfileId, profiles };
+}
+
+export function loadStore(): StoredBudgets {
+    let raw: string | null = null;
+    try {
+        raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? migrateStore(JSON.parse(raw)) : createDefaultStore();
+    } catch (error) {
+        console.error("Failed to load saved budgets:", error);
+        // Keep the unreadable data around so autosave doesn't destroy it.
+        if (raw) {
+            try {
+                localStorage.setItem(`${STORAGE_KEY}.backup`, raw);
+            } catch {
+                // Nothing more we can do without storage.
+            }
+        }
+        return createDefaultStore();
+    }
+}
+
+export function saveStore(store: StoredBudgets): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    } catch (error) {
+        console.error("Failed to save budgets:", error);
+    }
+}
+
+export function getMonthKey(date: Date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Adds the snapshot to the profile's history, replacing any earlier snapshot for the same month. */
+export function recordSnapshot(profile: BudgetProfile, snapshot: MonthlySnapshot): BudgetProfile {
+    const history = profile.history
+        .filter(entry => entry.month !== snapshot.month)
+        .concat(snapshot)
+        .sort((a, b) => a.month.localeCompare(b.month));
+    return { ...profile, history, updatedAt: snapshot.savedAt };
+}
@@ -0,0 +1,424 @@
+import { COUNTRY_SETTINGS } from './locale';
+import type { CountryCode, FilingStatus, IncomeStream, PreTaxDeduction, TaxBracket, TaxBreakdown, TaxDiscrepancy, TaxLine, UsFilingStatus } from '../types';
+import { DEDUCTION_REDUCES_FICA, isValidIncome, PAYCHECKS_PER_MONTH, toMonthlyDeduction, toMonthlyIncome } from './income';
+import {
+    CANADA_CONTRIBUTIONS,
+    CANADA_FEDERAL,
+    GERMAN_CONTRIBUTIONS,
+    germanIncomeTax,
+    PROVINCE_CODES_BY_CITY,
+    PROVINCE_CODES_BY_NAME,
+    PROVINCE_TABLES,
+    SCOTTISH_LOCATIONS,
+    UK_TAX,
+} from './internationalTaxTables';
+import type { CanadianIncomeTaxTable } from './internationalTaxTables';
+import {
+    FEDERAL_SCHEDULE,
+    FICA,
+    LOCAL_TABLES,
+    STATE_CODES_BY_NAME,
+    STATE_TABLES,
+    TAX_TABLES_VERSION,
+    TAX_YEAR,
+} from './taxTables';
+import type { IncomeTaxSchedule, LocalTaxTable } from './taxTables';
+
+/** Relative gap between the local and AI net income above which the UI warns the user. */
+export const DISCREPANCY_THRESHOLD = 0.1;
+
+const TAX_BASIS: Record<CountryCode, string> = {
+    US: 'using standard deductions',
+    CA: 'using the basic personal amount',
+    GB: 'for the 2025/26 tax year',
+    DE: 'without church tax',
+};
+
+export function getLocalTaxDisclaimer(country: CountryCode): string {
+    return `Estimated with ${TAX_YEAR} ${COUNTRY_SETTINGS[country].name} tax tables (v${TAX_TABLES_VERSION}) ${TAX_BASIS[country]}. This is for informational purposes only and not financial advice.`;
+}
+
+export interface TaxEstimateInput {
+    incomes: IncomeStream[];
+    deductions: PreTaxDeduction[];
+    country: CountryCode;
+    location: string;
+    filingStatus: FilingStatus;
+}
+
+/** One income stream with its pre-tax deductions, as handed to each country's regime. Amounts are annual. */
+interface StreamInput {
+    income: IncomeStream;
+    annual: number;
+    /** Pre-tax deductions taken from this stream. */
+    deducted: number;
+    /** The part of `deducted` that is also exempt from payroll taxes. */
+    payrollExempt: number;
+}
+
+/** What a regime works out for one stream. Amounts are annual. */
+interface StreamTaxes {
+    income: IncomeStream;
+    annual: number;
+    deducted: number;
+    /** Payroll taxes and social contributions charged on this stream. */
+    contributions: number;
+    /** The stream's share of taxable income, which the income tax is shared out between paychecks by. */
+    taxable: number;
+}
+
+interface RegimeEstimate {
+    regionCode: string | null;
+    localJurisdiction: string | null;
+    regionCovered: boolean;
+    streams: StreamTaxes[];
+    /** Annual amounts. */
+    lines: TaxLine[];
+    /** Annual total of the income tax lines. */
+    incomeTax: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const sumOf = <T,>(items: T[], pick: (item: T) => number) => items.reduce((total, item) => total + pick(item), 0);
+
+export function taxFromBrackets(taxableIncome: number, brackets: TaxBracket[]): number {
+    let tax = 0;
+    for (let i = 0; i < brackets.length; i++) {
+        const { over, rate } = brackets[i];
+        if (taxableIncome <= over) break;
+        const upper = i + 1 < brackets.length ? brackets[i + 1].over : Infinity;
+        tax += (Math.min(taxableIncome, upper) - over) * rate;
+    }
+    return tax;
+}
+
+function applySchedule(schedule: IncomeTaxSchedule, annualIncome: number, filingStatus: UsFilingStatus): number {
+    const taxable = Math.max(0, annualIncome - schedule.deduction[filingStatus]);
+    return taxFromBrackets(taxable, schedule.brackets[filingStatus]);
+}
+
+const locationParts = (location: string) => location.split(',').map(part => part.trim()).filter(Boolean);
+
+export function resolveJurisdiction(location: string): { stateCode: string | null; local: LocalTaxTable | null } {
+    const parts = locationParts(location);
+    let stateCode: string | null = null;
+    for (const part of [...parts].reverse()) {
+        const normalized = part.toLowerCase().replace(/\./g, '').replace(/\s+\d{5}(-\d{4})?$/, '');
+        if (/^[a-z]{2}$/.test(normalized) && Object.values(STATE_CODES_BY_NAME).includes(normalized.toUpperCase())) {
+            stateCode = normalized.toUpperCase();
+            break;
+        }
+        if (STATE_CODES_BY_NAME[normalized]) {
+            stateCode = STATE_CODES_BY_NAME[normalized];
+            break;
+        }
+    }
+
+    const city = parts.length > 1 || !stateCode ? (parts[0] ?? '').toLowerCase() : '';
+    const local = LOCAL_TABLES.find(table =>
+        table.aliases.includes(city) && (stateCode === null || stateCode === table.stateCode)
+    ) ?? null;
+
+    return { stateCode: stateCode ?? local?.stateCode ?? null, local };
+}
+
+/** Finds the province from a code or name in the location, falling back to a few large cities. */
+export function resolveProvince(location: string): string | null {
+    const parts = locationParts(location).map(part => part.toLowerCase().replace(/\./g, '').replace(/\s+[a-z]\d[a-z]\s?\d[a-z]\d$/, ''));
+    const codes = Object.values(PROVINCE_CODES_BY_NAME);
+    for (const part of [...parts].reverse()) {
+        if (/^[a-z]{2}$/.test(part) && codes.includes(part.toUpperCase())) return part.toUpperCase();
+        if (PROVINCE_CODES_BY_NAME[part]) return PROVINCE_CODES_BY_NAME[part];
+    }
+    return PROVINCE_CODES_BY_CITY[parts[0] ?? ''] ?? null;
+}
+
+/**
+ * Annualizes the valid income streams and shares the pre-tax deductions out between the
+ * employment streams they are taken from, pro rata.
+ */
+function prepareStreams(incomes: IncomeStream[], deductions: PreTaxDeduction[]): StreamInput[] {
+    const streams = incomes.filter(isValidIncome).map(income => ({ income, annual: toMonthlyIncome(income) * 12 }));
+    const annualWages = sumOf(streams, s => s.income.type === 'w2' ? s.annual : 0);
+    const annualDeductions = sumOf(deductions, d => toMonthlyDeduction(d) * 12);
+    const annualPayrollExempt = sumOf(deductions, d => DEDUCTION_REDUCES_FICA[d.type] ? toMonthlyDeduction(d) * 12 : 0);
+    // Payroll deductions can't exceed the wages they are taken from.
+    const deductionFactor = annualDeductions > annualWages ? (annualDeductions > 0 ? annualWages / annualDeductions : 0) : 1;
+
+    return streams.map(({ income, annual }) => {
+        const wageShare = income.type === 'w2' && annualWages > 0 ? annual / annualWages : 0;
+        return {
+            income,
+            annual,
+            deducted: annualDeductions * deductionFactor * wageShare,
+            payrollExempt: annualPayrollExempt * deductionFactor * wageShare,
+        };
+    });
+}
+
+/**
+ * US federal, state and local income tax plus FICA. Simplifications: the Social Security wage base
+ * applies to each stream separately, as if each job or business had its own earner; state and local
+ * taxes start from the same adjusted income as the federal tax; and the qualified business income
+ * deduction is ignored.
+ */
+function estimateUsTaxes(streams: StreamInput[], location: string, filingStatus: UsFilingStatus): RegimeEstimate {
+    const { stateCode, local } = resolveJurisdiction(location);
+    const stateTable = stateCode ? STATE_TABLES[stateCode] : undefined;
+
+    const perStream = streams.map(({ income, annual, deducted, payrollExempt }) => {
+        const ficaWages = income.type === 'w2' ? annual - payrollExempt : 0;
+        const selfEmploymentEarnings = income.type === '1099' ? annual * FICA.selfEmploymentEarningsFactor : 0;
+        const selfEmployment = Math.min(selfEmploymentEarnings, FICA.socialSecurityWageBase) * FICA.socialSecurityRate * 2
+            + selfEmploymentEarnings * FICA.medicareRate * 2;
+        return {
+            income,
+            annual,
+            deducted,
+            medicareBase: ficaWages + selfEmploymentEarnings,
+            socialSecurity: Math.min(ficaWages, FICA.socialSecurityWageBase) * FICA.socialSecurityRate,
+            medicare: ficaWages * FICA.medicareRate,
+            selfEmployment,
+            // The employer-equivalent half of self-employment tax is deducted before income tax.
+            taxable: annual - deducted - selfEmployment / 2,
+        };
+    });
+
+    const medicareBase = sumOf(perStream, s => s.medicareBase);
+    const additionalMedicare = Math.max(0, medicareBase - FICA.additionalMedicareThreshold[filingStatus]) * FICA.additionalMedicareRate;
+    const adjustedIncome = sumOf(perStream, s => s.taxable);
+
+    const federal = applySchedule(FEDERAL_SCHEDULE, adjustedIncome, filingStatus);
+    const state = stateTable?.schedule ? applySchedule(stateTable.schedule, adjustedIncome, filingStatus) : 0;
+    const localTax = local ? applySchedule(local.schedule, adjustedIncome, filingStatus) : 0;
+    const selfEmployment = sumOf(perStream, s => s.selfEmployment);
+
+    return {
+        regionCode: stateCode,
+        localJurisdiction: local?.name ?? null,
+        regionCovered: stateTable !== undefined,
+        streams: perStream.map(stream => ({
+            income: stream.income,
+            annual: stream.annual,
+            deducted: stream.deducted,
+            contributions: stream.socialSecurity + stream.medicare + stream.selfEmployment
+                + (medicareBase > 0 ? additionalMedicare * stream.medicareBase / medicareBase : 0),
+            taxable: stream.taxable,
+        })),
+        lines: [
+            { label: 'Federal income tax', amount: federal, covered: true },
+            { label: `State income tax${stateCode ? ` (${stateCode})` : ''}`, amount: state, covered: stateTable !== undefined },
+            ...(local ? [{ label: `Local tax (${local.name})`, amount: localTax, covered: true }] : []),
+            { label: 'Social Security', amount: sumOf(perStream, s => s.socialSecurity), covered: true },
+            { label: 'Medicare', amount: sumOf(perStream, s => s.medicare) + additionalMedicare, covered: true },
+            ...(selfEmployment > 0 ? [{ label: 'Self-employment tax', amount: selfEmployment, covered: true }] : []),
+        ],
+        incomeTax: federal + state + localTax,
+    };
+}
+
+function canadianIncomeTax(table: CanadianIncomeTaxTable, taxableIncome: number, creditBase: number, withSpouse: boolean): number {
+    const credits = (table.basicPersonalAmount + (withSpouse ? table.spouseAmount : 0) + creditBase) * table.creditRate;
+    return Math.max(0, taxFromBrackets(taxableIncome, table.brackets) - credits);
+}
+
+/**
+ * Canadian federal and provincial income tax plus CPP and EI. The self-employed pay both halves of
+ * CPP and deduct the employer half. Provincial surtaxes, health premiums and the phase-out of the
+ * federal basic personal amount for high incomes are ignored.
+ */
+function estimateCanadianTaxes(streams: StreamInput[], location: string, filingStatus: FilingStatus): RegimeEstimate {
+    const provinceCode = resolveProvince(location);
+    const province = provinceCode ? PROVINCE_TABLES[provinceCode] : undefined;
+    const withSpouse = filingStatus !== 'Single';
+    const c = CANADA_CONTRIBUTIONS;
+
+    const perStream = streams.map(({ income, annual, deducted }) => {
+        const employed = income.type === 'w2';
+        const selfEmployed = income.type === '1099';
+        const earnings = employed || selfEmployed ? annual : 0;
+        const halves = selfEmployed ? 2 : 1;
+        const cpp = Math.max(0, Math.min(earnings, c.cppMaxEarnings) - c.cppBasicExemption) * c.cppRate * halves;
+        const cpp2 = Math.max(0, Math.min(earnings, c.cpp2MaxEarnings) - c.cppMaxEarnings) * c.cpp2Rate * halves;
+        const ei = employed ? Math.min(annual, c.eiMaxInsurableEarnings) * c.eiRate : 0;
+        const creditableCpp = cpp / halves * c.cppBaseShare;
+        return {
+            income,
+            annual,
+            deducted,
+            cpp: cpp + cpp2,
+            ei,
+            creditable: creditableCpp + ei,
+            contributions: cpp + cpp2 + ei,
+            taxable: annual - deducted - (cpp + cpp2 - creditableCpp),
+        };
+    });
+
+    const taxableIncome = Math.max(0, sumOf(perStream, s => s.taxable));
+    const creditable = sumOf(perStream, s => s.creditable);
+    const employmentIncome = sumOf(perStream, s => s.income.type === 'w2' ? s.annual : 0);
+    const federal = canadianIncomeTax(CANADA_FEDERAL, taxableIncome, creditable + Math.min(employmentIncome, c.employmentAmount), withSpouse);
+    const provincial = province ? canadianIncomeTax(province, taxableIncome, creditable, withSpouse) : 0;
+    const ei = sumOf(perStream, s => s.ei);
+
+    return {
+        regionCode: provinceCode,
+        localJurisdiction: null,
+        regionCovered: province !== undefined,
+        streams: perStream,
+        lines: [
+            { label: 'Federal income tax', amount: federal, covered: true },
+            { label: `Provincial income tax${provinceCode ? ` (${provinceCode})` : ''}`, amount: provincial, covered: province !== undefined },
+            { label: 'CPP contributions', amount: sumOf(perStream, s => s.cpp), covered: true },
+            ...(ei > 0 ? [{ label: 'EI premiums', amount: ei, covered: true }] : []),
+        ],
+        incomeTax: federal + provincial,
+    };
+}
+
+/**
+ * UK income tax, with the Scottish bands for Scottish locations, plus Class 1 and Class 4 National
+ * Insurance. Pension contributions are treated as made under a net pay arrangement, so they lower
+ * income tax but not National Insurance.
+ */
+function estimateUkTaxes(streams: StreamInput[], location: string, filingStatus: FilingStatus): RegimeEstimate {
+    const lowerLocation = location.toLowerCase();
+    const scottish = SCOTTISH_LOCATIONS.some(name => lowerLocation.includes(name));
+
+    const perStream = streams.map(({ income, annual, deducted }) => {
+        const bands = income.type === 'w2' ? UK_TAX.employeeNationalInsurance
+            : income.type === '1099' ? UK_TAX.selfEmployedNationalInsurance
+            : null;
+        const contributions = bands ? taxFromBrackets(annual, bands) : 0;
+        return { income, annual, deducted, contributions, taxable: annual - deducted };
+    });
+
+    const adjustedIncome = Math.max(0, sumOf(perStream, s => s.taxable));
+    const allowance = Math.max(0, UK_TAX.personalAllowance - Math.max(0, adjustedIncome - UK_TAX.allowanceTaperThreshold) / 2);
+    const taxableIncome = Math.max(0, adjustedIncome - allowance);
+    const brackets = scottish ? UK_TAX.scottishBrackets : UK_TAX.brackets;
+    let incomeTax = taxFromBrackets(taxableIncome, brackets);
+    // The Marriage Allowance is only available below the higher rate, and relieves tax at the UK basic rate.
+    const higherRate = brackets.find(bracket => bracket.rate >= 0.4);
+    if (filingStatus !== 'Single' && taxableIncome <= higherRate.over) {
+        incomeTax = Math.max(0, incomeTax - UK_TAX.marriageAllowance * UK_TAX.brackets[0].rate);
+    }
+
+    return {
+        regionCode: scottish ? 'SCT' : null,
+        localJurisdiction: null,
+        regionCovered: true,
+        streams: perStream,
+        lines: [
+            { label: scottish ? 'Scottish income tax' : 'Income tax', amount: incomeTax, covered: true },
+            { label: 'National Insurance', amount: sumOf(perStream, s => s.contributions), covered: true },
+        ],
+        incomeTax,
+    };
+}
+
+/**
+ * German income tax with the solidarity surcharge, plus the employee share of statutory social
+ * insurance. Joint assessment uses income splitting over everything listed, so a spouse's income
+ * should be entered as its own stream. The self-employed are assumed to have voluntary statutory
+ * health cover and no statutory pension. Social contributions are deducted from taxable income in
+ * full, and church tax is ignored.
+ */
+function estimateGermanTaxes(streams: StreamInput[], filingStatus: FilingStatus): RegimeEstimate {
+    const joint = filingStatus !== 'Single';
+    const g = GERMAN_CONTRIBUTIONS;
+
+    const perStream = streams.map(({ income, annual, deducted }) => {
+        const employed = income.type === 'w2';
+        const selfEmployed = income.type === '1099';
+        const pensionBase = employed ? Math.min(annual, g.pensionCeiling) : 0;
+        const healthBase = employed || selfEmployed ? Math.min(annual, g.healthCeiling) : 0;
+        const pension = pensionBase * g.pensionRate;
+        const unemployment = pensionBase * g.unemploymentRate;
+        const health = healthBase * (selfEmployed ? g.selfEmployedHealthRate + g.selfEmployedCareRate : g.healthRate + g.careRate);
+        const contributions = pension + unemployment + health;
+        return { income, annual, deducted, pension, unemployment, health, contributions, taxable: Math.max(0, annual - deducted - contributions) };
+    });
+
+    const wages = sumOf(perStream, s => s.income.type === 'w2' ? s.annual : 0);
+    const taxableIncome = Math.max(0, sumOf(perStream, s => s.taxable)
+        - Math.min(wages, g.employmentExpenseAllowance)
+        - g.specialExpenseAllowance * (joint ? 2 : 1));
+    const incomeTax = joint ? germanIncomeTax(taxableIncome / 2) * 2 : germanIncomeTax(taxableIncome);
+    const exemption = g.solidarityExemption * (joint ? 2 : 1);
+    const solidarity = incomeTax > exemption ? Math.min(incomeTax * g.solidarityRate, (incomeTax - exemption) * g.solidarityPhaseInRate) : 0;
+
+    return {
+        regionCode: null,
+        localJurisdiction: null,
+        regionCovered: true,
+        streams: perStream,
+        lines: [
+            { label: 'Income tax', amount: incomeTax, covered: true },
+            ...(solidarity > 0 ? [{ label: 'Solidarity surcharge', amount: solidarity, covered: true }] : []),
+            { label: 'Pension insurance', amount: sumOf(perStream, s => s.pension), covered: true },
+            { label: 'Unemployment insurance', amount: sumOf(perStream, s => s.unemployment), covered: true },
+            { label: 'Health and care insurance', amount: sumOf(perStream, s => s.health), covered: true },
+        ],
+        incomeTax: incomeTax + solidarity,
+    };
+}
+
+/** Annualizes the income streams, applies the country's regime and returns monthly amounts. */
+export function estimateTaxes({ incomes, deductions, country, location, filingStatus }: TaxEstimateInput): TaxBreakdown {
+    const streams = prepareStreams(incomes, deductions);
+    const regime = country === 'CA' ? estimateCanadianTaxes(streams, location, filingStatus)
+        : country === 'GB' ? estimateUkTaxes(streams, location, filingStatus)
+        : country === 'DE' ? estimateGermanTaxes(streams, filingStatus)
+        : estimateUsTaxes(streams, location, filingStatus as UsFilingStatus);
+
+    const totalTaxable = sumOf(regime.streams, s => s.taxable);
+    const paychecks = regime.streams.map(stream => {
+        const incomeTaxShare = totalTaxable > 0 ? regime.incomeTax * stream.taxable / totalTaxable : 0;
+        const annualTakeHome = stream.annual - stream.deducted - incomeTaxShare - stream.contributions;
+        const perMonth = PAYCHECKS_PER_MONTH[stream.income.payFrequency];
+        return {
+            incomeId: stream.income.id,
+            name: stream.income.name,
+            payFrequency: stream.income.payFrequency,
+            grossPerPaycheck: roundCents(stream.annual / 12 / perMonth),
+            takeHomePerPaycheck: roundCents(annualTakeHome / 12 / perMonth),
+            monthlyTakeHome: roundCents(annualTakeHome / 12),
+        };
+    });
+
+    const lines = regime.lines.map(line => ({ ...line, amount: roundCents(line.amount / 12) }));
+    const totalTax = roundCents(sumOf(lines, line => line.amount));
+    const grossIncome = roundCents(sumOf(regime.streams, s => s.annual) / 12);
+    const preTaxDeductions = roundCents(sumOf(regime.streams, s => s.deducted) / 12);
+
+    return {
+        taxYear: TAX_YEAR,
+        tablesVersion: TAX_TABLES_VERSION,
+        country,
+        regionCode: regime.regionCode,
+        localJurisdiction: regime.localJurisdiction,
+        regionCovered: regime.regionCovered,
+        lines,
+        totalTax,
+        grossIncome,
+        preTaxDeductions,
+        netIncome: roundCents(grossIncome - preTaxDeductions - totalTax),
+        paychecks,
+    };
+}
+
+export function compareWithAiEstimate(breakdown: TaxBreakdown, aiNetIncome: number): TaxDiscrepancy {
+    const difference = roundCents(aiNetIncome - breakdown.netIncome);
+    return {
+        localNetIncome: breakdown.netIncome,
+        aiNetIncome,
+        difference,
+        relativeDifference: breakdown.netIncome !== 0 ? Math.abs(difference) / Math.abs(breakdown.netIncome) : 0,
+    };
+}
+
+export function isSignificantDiscrepancy(discrepancy: TaxDiscrepancy): boolean {
+    return discrepancy.relativeDifference > DISCREPANCY_THRESHOLD;
+}
@@ -0,0 +1,318 @@
+import type { TaxBracket, UsFilingStatus } from '../types';
+
+export const TAX_YEAR = 2025;
+export const TAX_TABLES_VERSION = '2025.3';
+
+export interface IncomeTaxSchedule {
+    /** Amount subtracted from annual gross income before the brackets apply. */
+    deduction: Record<UsFilingStatus, number>;
+    brackets: Record<UsFilingStatus, TaxBracket[]>;
+}
+
+export interface StateTaxTable {
+    name: string;
+    /** `null` for states that do not tax wage income. */
+    schedule: IncomeTaxSchedule | null;
+}
+
+export interface LocalTaxTable {
+    name: string;
+    stateCode: string;
+    /** Lower-cased names matched against the city part of the location. */
+    aliases: string[];
+    schedule: IncomeTaxSchedule;
+}
+
+export interface FicaTable {
+    socialSecurityRate: number;
+    socialSecurityWageBase: number;
+    medicareRate: number;
+    additionalMedicareRate: number;
+    additionalMedicareThreshold: Record<UsFilingStatus, number>;
+    /** Share of 1099 profit subject to self-employment tax, which is charged at both the employee and employer rates. */
+    selfEmploymentEarningsFactor: number;
+}
+
+const sameForAll = <T,>(value: T): Record<UsFilingStatus, T> => ({
+    'Single': value,
+    'Married Filing Jointly': value,
+    'Married Filing Separately': value,
+    'Head of Household': value,
+});
+
+const flatRate = (rate: number): Record<UsFilingStatus, TaxBracket[]> => sameForAll([{ over: 0, rate }]);
+
+/** Per-person exemption, doubled for joint filers. */
+const perPerson = (amount: number): Record<UsFilingStatus, number> => ({
+    'Single': amount,
+    'Married Filing Jointly': amount * 2,
+    'Married Filing Separately': amount,
+    'Head of Household': amount,
+});
+
+export const FEDERAL_SCHEDULE: IncomeTaxSchedule = {
+    deduction: {
+        'Single': 15750,
+        'Married Filing Jointly': 31500,
+        'Married Filing Separately': 15750,
+        'Head of Household': 23625,
+    },
+    brackets: {
+        'Single': [
+            { over: 0, rate: 0.10 },
+            { over: 11925, rate: 0.12 },
+            { over: 48475, rate: 0.22 },
+            { over: 103350, rate: 0.24 },
+            { over: 197300, rate: 0.32 },
+            { over: 250525, rate: 0.35 },
+            { over: 626350, rate: 0.37 },
+        ],
+        'Married Filing Jointly': [
+            { over: 0, rate: 0.10 },
+            { over: 23850, rate: 0.12 },
+            { over: 96950, rate: 0.22 },
+            { over: 206700, rate: 0.24 },
+            { over: 394600, rate: 0.32 },
+            { over: 501050, rate: 0.35 },
+            { over: 751600, rate: 0.37 },
+        ],
+        'Married Filing Separately': [
+            { over: 0, rate: 0.10 },
+            { over: 11925, rate: 0.12 },
+            { over: 48475, rate: 0.22 },
+            { over: 103350, rate: 0.24 },
+            { over: 197300, rate: 0.32 },
+            { over: 250525, rate: 0.35 },
+            { over: 375800, rate: 0.37 },
+        ],
+        'Head of Household': [
+            { over: 0, rate: 0.10 },
+            { over: 17000, rate: 0.12 },
+            { over: 64850, rate: 0.22 },
+            { over: 103350, rate: 0.24 },
+            { over: 197300, rate: 0.32 },
+            { over: 250500, rate: 0.35 },
+            { over: 626350, rate: 0.37 },
+        ],
+    },
+};
+
+export const FICA: FicaTable = {
+    socialSecurityRate: 0.062,
+    socialSecurityWageBase: 176100,
+    medicareRate: 0.0145,
+    additionalMedicareRate: 0.009,
+    additionalMedicareThreshold: {
+        'Single': 200000,
+        'Married Filing Jointly': 250000,
+        'Married Filing Separately': 125000,
+        'Head of Household': 200000,
+    },
+    selfEmploymentEarningsFactor: 0.9235,
+};
+
+const NO_INCOME_TAX: Record<string, string> = {
+    AK: 'Alaska', FL: 'Florida', NV: 'Nevada', NH: 'New Hampshire', SD: 'South Dakota',
+    TN: 'Tennessee', TX: 'Texas', WA: 'Washington', WY: 'Wyoming',
+};
+
+export const STATE_TABLES: Record<string, StateTaxTable> = {
+    ...Object.fromEntries(Object.entries(NO_INCOME_TAX).map(([code, name]) => [code, { name, schedule: null }])),
+    AZ: { name: 'Arizona', schedule: { deduction: FEDERAL_SCHEDULE.deduction, brackets: flatRate(0.025) } },
+    CO: { name: 'Colorado', schedule: { deduction: FEDERAL_SCHEDULE.deduction, brackets: flatRate(0.044) } },
+    GA: {
+        name: 'Georgia',
+        schedule: {
+            deduction: { 'Single': 12000, 'Married Filing Jointly': 24000, 'Married Filing Separately': 12000, 'Head of Household': 12000 },
+            brackets: flatRate(0.0519),
+        },
+    },
+    ID: { name: 'Idaho', schedule: { deduction: FEDERAL_SCHEDULE.deduction, brackets: flatRate(0.053) } },
+    IL: { name: 'Illinois', schedule: { deduction: perPerson(2850), brackets: flatRate(0.0495) } },
+    IN: { name: 'Indiana', schedule: { deduction: perPerson(1000), brackets: flatRate(0.03) } },
+    KY: { name: 'Kentucky', schedule: { deduction: sameForAll(3270), brackets: flatRate(0.04) } },
+    MA: {
+        name: 'Massachusetts',
+        schedule: {
+            deduction: { 'Single': 4400, 'Married Filing Jointly': 8800, 'Married Filing Separately': 4400, 'Head of Household': 6800 },
+            // 4% surtax on income above the millionaire threshold.
+            brackets: sameForAll([{ over: 0, rate: 0.05 }, { over: 1083150, rate: 0.09 }]),
+        },
+    },
+    MI: { name: 'Michigan', schedule: { deduction: perPerson(5800), brackets: flatRate(0.0425) } },
+    NC: {
+        name: 'North Carolina',
+        schedule: {
+            deduction: { 'Single': 12750, 'Married Filing Jointly': 25500, 'Married Filing Separately': 12750, 'Head of Household': 19125 },
+            brackets: flatRate(0.0425),
+        },
+    },
+    PA: { name: 'Pennsylvania', schedule: { deduction: sameForAll(0), brackets: flatRate(0.0307) } },
+    // California publishes its indexed brackets late in the year; these are the latest published figures,
+    // with the 1% mental health services tax folded in above $1M.
+    CA: {
+        name: 'California',
+        schedule: {
+            deduction: { 'Single': 5540, 'Married Filing Jointly': 11080, 'Married Filing Separately': 5540, 'Head of Household': 11080 },
+            brackets: {
+                'Single': [
+                    { over: 0, rate: 0.01 },
+                    { over: 10756, rate: 0.02 },
+                    { over: 25499, rate: 0.04 },
+                    { over: 40245, rate: 0.06 },
+                    { over: 55866, rate: 0.08 },
+                    { over: 70606, rate: 0.093 },
+                    { over: 360659, rate: 0.103 },
+                    { over: 432787, rate: 0.113 },
+                    { over: 721314, rate: 0.123 },
+                    { over: 1000000, rate: 0.133 },
+                ],
+                'Married Filing Jointly': [
+                    { over: 0, rate: 0.01 },
+                    { over: 21512, rate: 0.02 },
+                    { over: 50998, rate: 0.04 },
+                    { over: 80490, rate: 0.06 },
+                    { over: 111732, rate: 0.08 },
+                    { over: 141212, rate: 0.093 },
+                    { over: 721318, rate: 0.103 },
+                    { over: 865574, rate: 0.113 },
+                    { over: 1000000, rate: 0.123 },
+                    { over: 1442628, rate: 0.133 },
+                ],
+                'Married Filing Separately': [
+                    { over: 0, rate: 0.01 },
+                    { over: 10756, rate: 0.02 },
+                    { over: 25499, rate: 0.04 },
+                    { over: 40245, rate: 0.06 },
+                    { over: 55866, rate: 0.08 },
+                    { over: 70606, rate: 0.093 },
+                    { over: 360659, rate: 0.103 },
+                    { over: 432787, rate: 0.113 },
+                    { over: 721314, rate: 0.123 },
+                    { over: 1000000, rate: 0.133 },
+                ],
+                'Head of Household': [
+                    { over: 0, rate: 0.01 },
+                    { over: 21527, rate: 0.02 },
+                    { over: 51000, rate: 0.04 },
+                    { over: 65744, rate: 0.06 },
+                    { over: 81364, rate: 0.08 },
+                    { over: 96107, rate: 0.093 },
+                    { over: 490493, rate: 0.103 },
+                    { over: 588593, rate: 0.113 },
+                    { over: 980987, rate: 0.123 },
+                    { over: 1000000, rate: 0.133 },
+                ],
+            },
+        },
+    },
+    NY: {
+        name: 'New York',
+        schedule: {
+            deduction: { 'Single': 8000, 'Married Filing Jointly': 16050, 'Married Filing Separately': 8000, 'Head of Household': 11200 },
+            brackets: {
+                'Single': [
+                    { over: 0, rate: 0.04 },
+                    { over: 8500, rate: 0.045 },
+                    { over: 11700, rate: 0.0525 },
+                    { over: 13900, rate: 0.055 },
+                    { over: 80650, rate: 0.06 },
+                    { over: 215400, rate: 0.0685 },
+                    { over: 1077550, rate: 0.0965 },
+                    { over: 5000000, rate: 0.103 },
+                    { over: 25000000, rate: 0.109 },
+                ],
+                'Married Filing Jointly': [
+                    { over: 0, rate: 0.04 },
+                    { over: 17150, rate: 0.045 },
+                    { over: 23600, rate: 0.0525 },
+                    { over: 27900, rate: 0.055 },
+                    { over: 161550, rate: 0.06 },
+                    { over: 323200, rate: 0.0685 },
+                    { over: 2155350, rate: 0.0965 },
+                    { over: 5000000, rate: 0.103 },
+                    { over: 25000000, rate: 0.109 },
+                ],
+                'Married Filing Separately': [
+                    { over: 0, rate: 0.04 },
+                    { over: 8500, rate: 0.045 },
+                    { over: 11700, rate: 0.0525 },
+                    { over: 13900, rate: 0.055 },
+                    { over: 80650, rate: 0.06 },
+                    { over: 215400, rate: 0.0685 },
+                    { over: 1077550, rate: 0.0965 },
+                    { over: 5000000, rate: 0.103 },
+                    { over: 25000000, rate: 0.109 },
+                ],
+                'Head of Household': [
+                    { over: 0, rate: 0.04 },
+                    { over: 12800, rate: 0.045 },
+                    { over: 17650, rate: 0.0525 },
+                    { over: 20900, rate: 0.055 },
+                    { over: 107650, rate: 0.06 },
+                    { over: 269300, rate: 0.0685 },
+                    { over: 1616450, rate: 0.0965 },
+                    { over: 5000000, rate: 0.103 },
+                    { over: 25000000, rate: 0.109 },
+                ],
+            },
+        },
+    },
+};
+
+export const LOCAL_TABLES: LocalTaxTable[] = [
+    {
+        name: 'New York City',
+        stateCode: 'NY',
+        aliases: ['new york', 'new york city', 'nyc', 'manhattan', 'brooklyn', 'queens', 'bronx', 'the bronx', 'staten island'],
+        schedule: {
+            deduction: STATE_TABLES.NY.schedule!.deduction,
+            brackets: {
+                'Single': [
+                    { over: 0, rate: 0.03078 },
+                    { over: 12000, rate: 0.03762 },
+                    { over: 25000, rate: 0.03819 },
+                    { over: 50000, rate: 0.03876 },
+                ],
+                'Married Filing Jointly': [
+                    { over: 0, rate: 0.03078 },
+                    { over: 21600, rate: 0.03762 },
+                    { over: 45000, rate: 0.03819 },
+                    { over: 90000, rate: 0.03876 },
+                ],
+                'Married Filing Separately': [
+                    { over: 0, rate: 0.03078 },
+                    { over: 12000, rate: 0.03762 },
+                    { over: 25000, rate: 0.03819 },
+                    { over: 50000, rate: 0.03876 },
+                ],
+                'Head of Household': [
+                    { over: 0, rate: 0.03078 },
+                    { over: 14400, rate: 0.03762 },
+                    { over: 30000, rate: 0.03819 },
+                    { over: 60000, rate: 0.03876 },
+                ],
+            },
+        },
+    },
+    {
+        name: 'Philadelphia',
+        stateCode: 'PA',
+        aliases: ['philadelphia', 'philly'],
+        schedule: { deduction: sameForAll(0), brackets: flatRate(0.0375) },
+    },
+];
+
+export const STATE_CODES_BY_NAME: Record<string, string> = {
+    'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR', 'california': 'CA',
+    'colorado': 'CO', 'connecticut': 'CT', 'delaware': 'DE', 'district of columbia': 'DC', 'florida': 'FL',
+    'georgia': 'GA', 'hawaii': 'HI', 'idaho': 'ID', 'illinois': 'IL', 'indiana': 'IN',
+    'iowa': 'IA', 'kansas': 'KS', 'kentucky': 'KY', 'louisiana': 'LA', 'maine': 'ME',
+    'maryland': 'MD', 'massachusetts': 'MA', 'michigan': 'MI', 'minnesota': 'MN', 'mississippi': 'MS',
+    'missouri': 'MO', 'montana': 'MT', 'nebraska': 'NE', 'nevada': 'NV', 'new hampshire': 'NH',
+    'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+    'ohio': 'OH', 'oklahoma': 'OK', 'oregon': 'OR', 'pennsylvania': 'PA', 'rhode island': 'RI',
+    'south carolina': 'SC', 'south dakota': 'SD', 'tennessee': 'TN', 'texas': 'TX', 'utah': 'UT',
+    'vermont': 'VT', 'virginia': 'VA', 'washington': 'WA', 'west virginia': 'WV', 'wisconsin': 'WI',
+    'wyoming': 'WY',
+};
@@ -1,5 +1,527 @@
+export const COUNTRIES = ['US', 'CA', 'GB', 'DE'] as const;
+
+export type CountryCode = typeof COUNTRIES[number];
+
+export const CURRENCIES = ['USD', 'CAD', 'GBP', 'EUR'] as const;
+
+export type CurrencyCode = typeof CURRENCIES[number];
+
+export const EXPENSE_CATEGORIES = [
+  'housing',
+  'utilities',
+  'transport',
+  'food',
+  'health',
+  'insurance',
+  'debt',
+  'savings',
+  'childcare',
+  'personal',
+  'discretionary',
+  'other',
+] as const;
+
+export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number];
+
+export const EXPENSE_FREQUENCIES = ['weekly', 'biweekly', 'monthly', 'quarterly', 'annual', 'one-time'] as const;
+
+export type ExpenseFrequency = typeof EXPENSE_FREQUENCIES[number];
+
+export const EXPENSE_TAGS = ['fixed', 'variable', 'essential'] as const;
+
+export type ExpenseTag = typeof EXPENSE_TAGS[number];
+
 export interface Expense {
   id: number;
   name: string;
+  /** Amount per `frequency` period, as typed by the user. */
   amount: string;
+  category: ExpenseCategory;
+  frequency: ExpenseFrequency;
+  tag: ExpenseTag;
+  currency: CurrencyCode;
+}
+
+export interface CategoryTotal {
+  category: ExpenseCategory;
+  monthlyTotal: number;
+  /** Share of total monthly expenses, from 0 to 1. */
+  share: number;
+}
+
+/** The first status of each country is the default. */
+export const FILING_STATUSES_BY_COUNTRY = {
+  US: ['Single', 'Married Filing Jointly', 'Married Filing Separately', 'Head of Household'],
+  CA: ['Single', 'Married (Spouse Without Income)'],
+  GB: ['Single', 'Married (Receiving Marriage Allowance)'],
+  DE: ['Single', 'Married (Joint Assessment)'],
+} as const;
+
+export type FilingStatus = typeof FILING_STATUSES_BY_COUNTRY[CountryCode][number];
+
+export type UsFilingStatus = typeof FILING_STATUSES_BY_COUNTRY['US'][number];
+
+export const FILING_STATUSES: readonly FilingStatus[] = [...new Set(Object.values(FILING_STATUSES_BY_COUNTRY).flat())];
+
+export const INCOME_TYPES = ['w2', '1099', 'rental', 'other'] as const;
+
+export type IncomeType = typeof INCOME_TYPES[number];
+
+export const PAY_FREQUENCIES = ['weekly', 'biweekly', 'semimonthly', 'monthly'] as const;
+
+export type PayFrequency = typeof PAY_FREQUENCIES[number];
+
+export const AMOUNT_PERIODS = ['monthly', 'annual'] as const;
+
+export type AmountPeriod = typeof AMOUNT_PERIODS[number];
+
+export interface IncomeStream {
+  id: number;
+  name: string;
+  type: IncomeType;
+  payFrequency: PayFrequency;
+  /** Gross amount per `amountPeriod`, as typed by the user. */
+  amount: string;
+  amountPeriod: AmountPeriod;
+}
+
+export const DEDUCTION_TYPES = ['401k', 'hsa', 'health-premium', 'other'] as const;
+
+export type DeductionType = typeof DEDUCTION_TYPES[number];
+
+/** A payroll deduction taken from W-2 wages before income tax. */
+export interface PreTaxDeduction {
+  id: number;
+  name: string;
+  type: DeductionType;
+  amount: string;
+  amountPeriod: AmountPeriod;
+}
+
+export interface PaycheckEstimate {
+  incomeId: number;
+  name: string;
+  payFrequency: PayFrequency;
+  grossPerPaycheck: number;
+  takeHomePerPaycheck: number;
+  monthlyTakeHome: number;
+}
+
+export interface SavingsGoal {
+  id: number;
+  name: string;
+  targetAmount: string;
+  /** Already saved towards the goal. */
+  currentAmount: string;
+  /** Month to reach the goal by, in `YYYY-MM` form, or '' for no deadline. */
+  targetDate: string;
+}
+
+export interface Debt {
+  id: number;
+  name: string;
+  balance: string;
+  /** Annual percentage rate, e.g. "19.99". */
+  apr: string;
+  minimumPayment: string;
+}
+
+export const PAYOFF_STRATEGIES = ['avalanche', 'snowball'] as const;
+
+export type PayoffStrategy = typeof PAYOFF_STRATEGIES[number];
+
+export interface TaxBracket {
+  /** Lower bound of the bracket in annual taxable income. */
+  over: number;
+  rate: number;
+}
+
+/** One tax or social contribution in a breakdown, as a monthly amount. */
+export interface TaxLine {
+  label: string;
+  amount: number;
+  /** False when the tables don't cover this tax for the location, so `amount` is 0. */
+  covered: boolean;
+}
+
+/** All amounts are monthly. */
+export interface TaxBreakdown {
+  taxYear: number;
+  tablesVersion: string;
+  country: CountryCode;
+  /** State or province code parsed from the location, if any. */
+  regionCode: string | null;
+  /** Name of the local jurisdiction whose table was applied, if any. */
+  localJurisdiction: string | null;
+  /** False when the location's state, province or region is not in the local tables, so its taxes are not included. */
+  regionCovered: boolean;
+  /** Income taxes first, then social contributions. Lines that don't apply are left out. */
+  lines: TaxLine[];
+  totalTax: number;
+  grossIncome: number;
+  preTaxDeductions: number;
+  /** Take-home pay after taxes and pre-tax deductions. */
+  netIncome: number;
+  paychecks: PaycheckEstimate[];
+}
+
+export interface TaxDiscrepancy {
+  localNetIncome: number;
+  aiNetIncome: number;
+  difference: number;
+  /** Difference as a share of the locally computed net income. */
+  relativeDifference: number;
+}
+
+export interface TaxEstimateIncome {
+  type: IncomeType;
+  monthlyAmount: number;
+}
+
+export interface TaxEstimateDeduction {
+  type: DeductionType;
+  monthlyAmount: number;
+}
+
+export interface TaxEstimateRequest {
+  grossMonthlyIncome: number;
+  country: CountryCode;
+  location: string;
+  filingStatus: FilingStatus;
+  /** Breakdown of `grossMonthlyIncome`; when empty it is treated as W-2 wages. */
+  incomes: TaxEstimateIncome[];
+  deductions: TaxEstimateDeduction[];
+}
+
+export interface TaxEstimateResult {
+  netIncome: number;
+  totalTax: number;
+  disclaimer: string;
+  /** When the estimate was made, if it was served from the server's cache. */
+  cachedAt?: string;
+}
+
+export interface GoalProjectionSummary {
+  name: string;
+  targetAmount: number;
+  currentAmount: number;
+  targetDate: string | null;
+  /** Month the goal is projected to be reached, or null if not within the planning horizon. */
+  projectedDate: string | null;
+  onTrack: boolean;
+}
+
+export interface DebtProjectionSummary {
+  name: string;
+  balance: number;
+  apr: number;
+  minimumPayment: number;
+  projectedPayoffDate: string | null;
+  interestPaid: number;
+}
+
+/** The savings and debt payoff projections as sent to the AI with the budget. */
+export interface PlanSummary {
+  strategy: PayoffStrategy;
+  goals: GoalProjectionSummary[];
+  debts: DebtProjectionSummary[];
+  totalInterest: number;
+  /** Total interest under the other payoff strategy, for comparison. */
+  alternativeTotalInterest: number;
+  debtFreeDate: string | null;
+}
+
+export interface BudgetAnalysisRequest {
+  grossIncome: number;
+  netIncome: number;
+  location: string;
+  /** Every amount, including those of the expenses, is in this currency. */
+  currency: CurrencyCode;
+  expenses: Expense[];
+  categoryTotals: CategoryTotal[];
+  totalExpenses: number;
+  remainingBalance: number;
+  /** Null when the user has no goals or debts. */
+  plan: PlanSummary | null;
+  /** Return the last analysis of an identical budget instead of asking the AI again. */
+  reuseCachedAnalysis?: boolean;
+}
+
+export type BenchmarkBucketName = 'needs' | 'wants' | 'savings';
+
+export interface BenchmarkBucket {
+  /** Recommended share of net income, from 0 to 1. */
+  targetShare: number;
+  /** Actual share of net income, from 0 upward (above 1 when spending exceeds income). */
+  actualShare: number;
+  monthlyAmount: number;
+}
+
+export interface BudgetBenchmark {
+  needs: BenchmarkBucket;
+  wants: BenchmarkBucket;
+  savings: BenchmarkBucket;
+  comment: string;
+}
+
+export type FlagSeverity = 'info' | 'warning' | 'critical';
+
+export interface ExpenseFlag {
+  /** The expense or category the flag is about. */
+  subject: string;
+  severity: FlagSeverity;
+  message: string;
+}
+
+export interface Recommendation {
+  title: string;
+  detail: string;
+  estimatedMonthlySavings: number;
+}
+
+export interface BudgetAnalysis {
+  /** Overall financial health from 0 (critical) to 100 (excellent). */
+  healthScore: number;
+  summary: string;
+  benchmark: BudgetBenchmark;
+  flags: ExpenseFlag[];
+  /** Most impactful first. */
+  recommendations: Recommendation[];
+  /** When the analysis was made, if it was served from the server's cache. */
+  cachedAt?: string;
+}
+
+/** One line of the newline-delimited JSON stream sent by /api/budget-analysis/stream. */
+export type BudgetAnalysisStreamEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'result'; analysis: BudgetAnalysis }
+  | { type: 'error'; error: string };
+
+export interface BudgetInputs {
+  incomes: IncomeStream[];
+  deductions: PreTaxDeduction[];
+  country: CountryCode;
+  filingStatus: FilingStatus;
+  location: string;
+  expenses: Expense[];
+  goals: SavingsGoal[];
+  debts: Debt[];
+  payoffStrategy: PayoffStrategy;
+  useAiTaxCheck: boolean;
+  reuseAnalysis: boolean;
+}
+
+export interface MonthlySnapshot {
+  /** Calendar month in `YYYY-MM` form. */
+  month: string;
+  savedAt: string;
+  /** All amounts of the snapshot are in this currency, which stays with it if the budget later moves country. */
+  currency: CurrencyCode;
+  grossIncome: number;
+  netIncome: number;
+  totalTax: number;
+  totalExpenses: number;
+  remainingBalance: number;
+  categoryTotals: CategoryTotal[];
+  /** Summary of the AI analysis for that month. */
+  analysis: string;
+  healthScore: number | null;
+}
+
+export interface BudgetProfile {
+  id: string;
+  name: string;
+  updatedAt: string;
+  inputs: BudgetInputs;
+  /** One snapshot per month, oldest first. */
+  history: MonthlySnapshot[];
+  scenarios: Scenario[];
+  /** Follow-up conversation about this budget, oldest first. */
+  chat: ChatMessage[];
+}
+
+/** The calculated figures of a budget, as included in exports and the printed report. */
+export interface BudgetResults {
+  grossIncome: number;
+  netIncome: number;
+  totalTax: number;
+  /** Whether the totals come from the local tax tables or the AI estimate. */
+  taxSource: 'local' | 'ai';
+  taxBreakdown: TaxBreakdown | null;
+  totalExpenses: number;
+  remainingBalance: number;
+  categoryTotals: CategoryTotal[];
+}
+
+/** A budget exported as JSON. Only `name` and `inputs` are read back on import. */
+export interface BudgetExport {
+  format: 'ai-budget-analyzer';
+  /** Storage schema version of `inputs`, so older files go through the same migrations. */
+  version: number;
+  exportedAt: string;
+  name: string;
+  inputs: BudgetInputs;
+  /** Null when the budget hadn't been calculated yet. */
+  results: BudgetResults | null;
+  analysis: BudgetAnalysis | null;
+}
+
+/** A what-if copy of a budget's inputs, compared against the profile's current inputs. */
+export interface Scenario {
+  id: string;
+  name: string;
+  inputs: BudgetInputs;
+}
+
+/** The figures of one scenario as sent to the AI for a side-by-side comparison. */
+export interface ScenarioSummary {
+  name: string;
+  currency: CurrencyCode;
+  location: string;
+  filingStatus: FilingStatus;
+  grossIncome: number;
+  netIncome: number;
+  totalTax: number;
+  totalExpenses: number;
+  remainingBalance: number;
+  healthScore: number;
+  analysisSummary: string;
+}
+
+export interface ScenarioComparisonRequest {
+  /** The baseline comes first. */
+  scenarios: ScenarioSummary[];
+}
+
+export interface ScenarioComparison {
+  summary: string;
+  /** One short trade-off per scenario or theme. */
+  tradeoffs: string[];
+}
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatTurn {
+  role: ChatRole;
+  text: string;
+}
+
+export const EXPENSE_EDIT_ACTIONS = ['add', 'update', 'remove'] as const;
+
+export type ExpenseEditAction = typeof EXPENSE_EDIT_ACTIONS[number];
+
+/** A change to the expense list proposed in a chat reply. For 'add', `expenseId` is null. */
+export interface ExpenseEdit {
+  action: ExpenseEditAction;
+  expenseId: number | null;
+  name: string;
+  /** Amount per `frequency` period. */
+  amount: number;
+  category: ExpenseCategory;
+  frequency: ExpenseFrequency;
+  currency: CurrencyCode;
+  reason: string;
+}
+
+export interface ChatMessage extends ChatTurn {
+  id: string;
+  createdAt: string;
+  edits: ExpenseEdit[];
+  /** Indexes into `edits` that the user has applied. */
+  appliedEdits: number[];
+}
+
+/** The current budget each chat turn is grounded in. All amounts are monthly. */
+export interface BudgetChatContext {
+  country: CountryCode;
+  /** Every amount, including those of the expenses, is in this currency. */
+  currency: CurrencyCode;
+  location: string;
+  filingStatus: FilingStatus;
+  grossIncome: number;
+  netIncome: number;
+  totalTax: number;
+  /** The local tax breakdown, when the calculation has one. */
+  taxes: Pick<TaxBreakdown, 'lines' | 'preTaxDeductions'> | null;
+  expenses: Expense[];
+  totalExpenses: number;
+  remainingBalance: number;
+  /** Summary of the last budget analysis, if one has been run. */
+  analysisSummary: string | null;
+}
+
+export interface BudgetChatRequest {
+  context: BudgetChatContext;
+  /** Earlier turns, oldest first. */
+  history: ChatTurn[];
+  message: string;
+}
+
+export interface BudgetChatReply {
+  text: string;
+  edits: ExpenseEdit[];
+}
+
+export interface Transaction {
+  id: string;
+  /** Posting date in `YYYY-MM-DD` form. */
+  date: string;
+  description: string;
+  /** Signed amount as on the statement: negative for money leaving the account. */
+  amount: number;
+}
+
+export interface ImportSuggestion {
+  key: string;
+  name: string;
+  /** Typical amount per `frequency` period. */
+  amount: number;
+  category: ExpenseCategory;
+  frequency: ExpenseFrequency;
+  tag: ExpenseTag;
+  recurring: boolean;
+  transactionCount: number;
+  categorySource: 'rule' | 'ai' | 'default';
+  include: boolean;
+}
+
+export interface MerchantToCategorize {
+  /** Normalized merchant key the category is returned under. */
+  key: string;
+  description: string;
+}
+
+export interface CategorizeMerchantsRequest {
+  merchants: MerchantToCategorize[];
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated from the model's list prices; 0 when they are unknown. */
+  costUsd: number;
+}
+
+export interface AiCallUsage {
+  time: string;
+  task: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** Token usage and estimated cost of the AI calls made this month, as returned by /api/usage. */
+export interface AiUsageSummary {
+  /** "YYYY-MM". */
+  month: string;
+  totals: AiUsageTotals;
+  byTask: Record<string, AiUsageTotals>;
+  /** Null when no monthly budget is set. */
+  budgetUsd: number | null;
+  /** False when the model's prices are unknown, so costs are reported as 0. */
+  pricingKnown: boolean;
+  /** Most recent first. */
+  recentCalls: AiCallUsage[];
 }
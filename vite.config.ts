@@ -4,16 +4,19 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const apiProxy = {
+      '/api': `http://localhost:${env.API_PORT || 3001}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy: apiProxy,
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),